@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+
+import { SignJWT } from 'jose';
+import { describe, expect, it, vi } from 'vitest';
+
+import middleware from './middleware';
+import { SESSION_COOKIE_NAME } from './src/lib/auth/token';
+
+/**
+ * Sign a session token with the test secret (see vitest.config.ts)
+ */
+function signSession(): Promise<string> {
+  return new SignJWT({ userId: 1, email: 'user@example.test' })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setExpirationTime('1h')
+    .sign(new TextEncoder().encode(process.env.JWT_SECRET));
+}
+
+function request(path: string, token?: string): NextRequest {
+  return new NextRequest(new URL(path, 'https://foodbook.test'), {
+    ...(token !== undefined && {
+      headers: { Cookie: `${SESSION_COOKIE_NAME}=${token}` },
+    }),
+  });
+}
+
+describe('middleware route protection', () => {
+  it('redirects to the login page without a session', async () => {
+    const response = await middleware(request('/en/account?tab=lists'));
+    const location = new URL(response.headers.get('Location') ?? '');
+
+    expect(response.status).toBe(307);
+    expect(location.pathname).toBe('/en/login');
+    expect(location.searchParams.get('returnTo')).toBe('/en/account?tab=lists');
+  });
+
+  it('redirects with an invalid session', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const response = await middleware(request('/nl/orders', 'invalid'));
+
+    expect(response.headers.get('Location')).toContain('/nl/login');
+    vi.restoreAllMocks();
+  });
+
+  it('lets requests with a valid session through', async () => {
+    const response = await middleware(
+      request('/en/account', await signSession())
+    );
+
+    expect(response.headers.get('Location')).toBeNull();
+  });
+
+  it('does not protect public pages', async () => {
+    const response = await middleware(request('/en/product'));
+
+    expect(response.headers.get('Location')).toBeNull();
+  });
+
+  it('adds the security headers', async () => {
+    const response = await middleware(request('/en/account'));
+
+    expect(response.headers.get('X-Frame-Options')).toBe('SAMEORIGIN');
+    expect(response.headers.get('Content-Security-Policy')).toContain(
+      "object-src 'none'"
+    );
+  });
+});
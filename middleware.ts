@@ -1,8 +1,14 @@
-import type { NextRequest } from 'next/server';
+import { NextResponse, type NextRequest } from 'next/server';
 
 import createMiddleware from 'next-intl/middleware';
 
+import { isValidLocale } from './src/i18n/config';
 import { routing } from './src/i18n/routing';
+import {
+  getRouteRequirement,
+  meetsRequirement,
+} from './src/lib/auth/route-protection';
+import { SESSION_COOKIE_NAME, verifySession } from './src/lib/auth/token';
 
 /**
  * next-intl middleware for i18n routing
@@ -84,15 +90,64 @@ function getSecurityHeaders() {
   return headers;
 }
 
+/**
+ * Enforce the protected routes (see `protectedRoutes`)
+ *
+ * Requests without a valid session are redirected to the login page of
+ * their locale, with the requested URL as `returnTo`. Sessions are not
+ * renewed here: when the refresh cookie is still valid, SessionRenewal
+ * (in the header, so also on the login page) renews the session
+ * client-side, after which the login page redirects to `returnTo`.
+ * Users lacking a role or permission get the localized 403 page.
+ *
+ * @returns The redirect/rewrite, or null when the request may proceed
+ */
+async function protectRoute(
+  request: NextRequest
+): Promise<NextResponse | null> {
+  const { pathname, search } = request.nextUrl;
+  const [, locale = '', ...segments] = pathname.split('/');
+
+  if (!isValidLocale(locale)) {
+    // Not localized yet: the i18n middleware redirects first
+    return null;
+  }
+
+  const requirement = getRouteRequirement(`/${segments.join('/')}`, locale);
+
+  if (requirement === null) {
+    return null;
+  }
+
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const session = token ? await verifySession(token) : null;
+
+  if (!session) {
+    const loginUrl = new URL(
+      `/${locale}${routing.pathnames['/login']}`,
+      request.url
+    );
+    loginUrl.searchParams.set('returnTo', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (!meetsRequirement(session, requirement)) {
+    return NextResponse.rewrite(new URL(`/${locale}/forbidden`, request.url));
+  }
+
+  return null;
+}
+
 /**
  * Main middleware function
  *
- * 1. Runs next-intl middleware for i18n routing
- * 2. Adds security headers to all responses
+ * 1. Enforces the protected routes
+ * 2. Runs next-intl middleware for i18n routing
+ * 3. Adds security headers to all responses
  */
-export default function middleware(request: NextRequest) {
-  // Run i18n middleware first
-  const response = intlMiddleware(request);
+export default async function middleware(request: NextRequest) {
+  // Run route protection first, then i18n middleware
+  const response = (await protectRoute(request)) ?? intlMiddleware(request);
 
   // Add security headers to the response
   const securityHeaders = getSecurityHeaders();
@@ -112,6 +167,8 @@ export default function middleware(request: NextRequest) {
  * - Favicon, robots.txt, etc.
  */
 export const config = {
+  // Node.js runtime: session verification may read a local JWKS file
+  runtime: 'nodejs',
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
@@ -4,7 +4,25 @@ import createNextIntlPlugin from 'next-intl/plugin';
 const withNextIntl = createNextIntlPlugin('./src/i18n/request.ts');
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    // forbidden() renders the localized 403 page (requireSession)
+    authInterrupts: true,
+  },
+  images: {
+    // Product and brand images served by the Foodbook API / CDN
+    remotePatterns: [
+      {
+        protocol: 'https',
+        hostname: '**.psinfoodservice.com',
+      },
+      // Featured images from the WordPress media library
+      {
+        protocol: 'https',
+        hostname: 'psinfoodservice.online',
+        pathname: '/wp-content/uploads/**',
+      },
+    ],
+  },
 };
 
 export default withNextIntl(nextConfig);
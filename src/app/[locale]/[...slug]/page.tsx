@@ -0,0 +1,115 @@
+import { cache } from 'react';
+
+import { draftMode } from 'next/headers';
+import { notFound } from 'next/navigation';
+
+import { getLocale } from 'next-intl/server';
+
+import { WordPressContent } from '@/components/wordpress/wordpress-content';
+import type { Locale } from '@/i18n/config';
+import { routing } from '@/i18n/routing';
+import { getWordPressPage, toPagePath, toPlainText } from '@/lib/api/wordpress';
+
+import type { Metadata } from 'next';
+
+interface CmsPageProps {
+  params: Promise<{
+    locale: string;
+    slug: string[];
+  }>;
+}
+
+/**
+ * Resolve the WordPress page path for the route segments
+ *
+ * Declared pathnames without their own page (e.g. `/terms`) arrive here
+ * under their internal name; they map to the localized path, which is
+ * also the page path in WordPress (`/terms` → `/algemene-voorwaarden`).
+ */
+function toWordPressPath(segments: string[], locale: Locale): string {
+  const path = `/${segments.join('/')}`;
+  const pathnames: Record<string, string | Record<Locale, string>> =
+    routing.pathnames;
+  const localized = pathnames[path];
+
+  if (localized === undefined) {
+    return path;
+  }
+  return typeof localized === 'string' ? localized : localized[locale];
+}
+
+/**
+ * Page fetch, deduplicated between generateMetadata and the page
+ *
+ * WordPress looks pages up by their last slug only, so the full path of
+ * the result is checked to avoid serving `/team` under any parent path.
+ * In draft mode unpublished pages are included; these have no permalink
+ * yet and are served under their (generated) slug.
+ */
+const loadPage = cache(async (segments: string[], locale: Locale) => {
+  const path = toWordPressPath(segments, locale);
+  const slug = path.split('/').pop() ?? '';
+  const { isEnabled: preview } = await draftMode();
+  const page = await getWordPressPage(slug, locale, { preview });
+
+  if (page === null) {
+    return null;
+  }
+
+  const pagePath = toPagePath(page.link);
+  return pagePath === path || (preview && pagePath === '') ? page : null;
+});
+
+export async function generateMetadata({
+  params,
+}: CmsPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const locale = (await getLocale()) as Locale;
+
+  try {
+    const page = await loadPage(slug, locale);
+
+    if (!page) {
+      return {};
+    }
+
+    return {
+      title: `${toPlainText(page.title.rendered)} | PS Foodbook`,
+      description: page.excerpt
+        ? toPlainText(page.excerpt.rendered) || undefined
+        : undefined,
+    };
+  } catch {
+    // The page itself handles (and reports) the error
+    return {};
+  }
+}
+
+/**
+ * CMS page
+ *
+ * Catch-all route for pages managed in WordPress: any path without its
+ * own route (including the legal pages declared in routing.ts) is looked
+ * up as a WordPress page in the active locale. Unknown paths return a
+ * 404.
+ */
+export default async function CmsPage({ params }: CmsPageProps) {
+  const { slug } = await params;
+  const locale = (await getLocale()) as Locale;
+  const page = await loadPage(slug, locale);
+
+  if (!page) {
+    notFound();
+  }
+
+  return (
+    <main id="main-content" className="container mx-auto px-4 py-8">
+      <article className="mx-auto flex max-w-3xl flex-col gap-6">
+        <h1 className="text-3xl font-bold md:text-4xl">
+          {toPlainText(page.title.rendered)}
+        </h1>
+        <WordPressContent html={page.content.rendered} />
+      </article>
+    </main>
+  );
+}
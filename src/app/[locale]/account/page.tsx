@@ -0,0 +1,57 @@
+import { getLocale, getTranslations } from 'next-intl/server';
+
+import { ListsManager } from '@/components/lists/lists-manager';
+import { getPathname } from '@/i18n/routing';
+import { requireSession } from '@/lib/auth/session';
+
+import type { Metadata } from 'next';
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations('Navigation');
+
+  return {
+    title: `${t('myAccount')} | PS Foodbook`,
+  };
+}
+
+/**
+ * Account page
+ *
+ * Greets the logged-in user and lets them manage their favorites and
+ * product lists. Protected by the middleware; requireSession redirects
+ * to the login page when the session expired in between.
+ */
+export default async function AccountPage() {
+  const locale = await getLocale();
+  const session = await requireSession(
+    {},
+    getPathname({ href: '/account', locale })
+  );
+  const t = await getTranslations('Navigation');
+  const tLists = await getTranslations('Lists');
+
+  return (
+    <main id="main-content" className="container mx-auto px-4 py-8">
+      <div className="flex flex-col gap-8">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-3xl font-bold">{t('myAccount')}</h1>
+          <p className="text-muted-foreground">
+            {session.user.name ?? session.user.email}
+          </p>
+        </div>
+        <section
+          aria-labelledby="lists-heading"
+          className="flex flex-col gap-4"
+        >
+          <div className="flex flex-col gap-1">
+            <h2 id="lists-heading" className="text-2xl font-semibold">
+              {tLists('title')}
+            </h2>
+            <p className="text-muted-foreground">{tLists('description')}</p>
+          </div>
+          <ListsManager />
+        </section>
+      </div>
+    </main>
+  );
+}
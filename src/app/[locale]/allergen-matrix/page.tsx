@@ -0,0 +1,52 @@
+import { getTranslations } from 'next-intl/server';
+import { createLoader, parseAsArrayOf, parseAsInteger } from 'nuqs/server';
+
+import { AllergenMatrixView } from '@/components/allergen-matrix/allergen-matrix-view';
+
+import type { Metadata } from 'next';
+import type { SearchParams } from 'nuqs/server';
+
+interface AllergenMatrixPageProps {
+  searchParams: Promise<SearchParams>;
+}
+
+/**
+ * Products of a shared matrix: `?ids=12,34`
+ */
+const loadAllergenMatrixParams = createLoader({
+  ids: parseAsArrayOf(parseAsInteger),
+});
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations('AllergenMatrix');
+
+  return {
+    title: `${t('title')} | PS Foodbook`,
+  };
+}
+
+/**
+ * Allergen matrix page
+ *
+ * Shows the products in `?ids=` (links from lists and shared matrices)
+ * or otherwise the products selected in the search results. The products
+ * are loaded on the client, as the selection only exists there.
+ */
+export default async function AllergenMatrixPage({
+  searchParams,
+}: AllergenMatrixPageProps) {
+  const t = await getTranslations('AllergenMatrix');
+  const { ids } = await loadAllergenMatrixParams(searchParams);
+
+  return (
+    <main id="main-content" className="container mx-auto px-4 py-8">
+      <div className="flex flex-col gap-8">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-3xl font-bold">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('description')}</p>
+        </div>
+        <AllergenMatrixView {...(ids !== null && { ids })} />
+      </div>
+    </main>
+  );
+}
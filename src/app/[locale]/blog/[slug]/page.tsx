@@ -0,0 +1,121 @@
+import { cache } from 'react';
+
+import { draftMode } from 'next/headers';
+import { notFound } from 'next/navigation';
+
+import { dehydrate, HydrationBoundary } from '@tanstack/react-query';
+import { getLocale } from 'next-intl/server';
+
+import { BlogPostView } from '@/components/blog/blog-post-view';
+import { WordPressContent } from '@/components/wordpress/wordpress-content';
+import type { Locale } from '@/i18n/config';
+import { getQueryClient } from '@/lib/api/client';
+import { blogKeys } from '@/lib/api/query-keys';
+import {
+  getWordPressCategories,
+  getWordPressPost,
+  getWordPressPosts,
+  getWordPressTags,
+  toPlainText,
+} from '@/lib/api/wordpress';
+import { toRelatedPostParams } from '@/lib/search/blog-search-params';
+
+import type { Metadata } from 'next';
+
+interface BlogPostPageProps {
+  params: Promise<{
+    locale: string;
+    slug: string;
+  }>;
+}
+
+/**
+ * Post fetch, deduplicated between generateMetadata and the page
+ *
+ * Includes drafts and unsaved changes in draft mode.
+ */
+const loadPost = cache(async (slug: string, locale: Locale) => {
+  const { isEnabled: preview } = await draftMode();
+  return getWordPressPost(slug, locale, { preview });
+});
+
+export async function generateMetadata({
+  params,
+}: BlogPostPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const locale = (await getLocale()) as Locale;
+
+  try {
+    const post = await loadPost(slug, locale);
+
+    if (!post) {
+      return {};
+    }
+
+    return {
+      title: `${toPlainText(post.title.rendered)} | PS Foodbook`,
+      description: post.excerpt
+        ? toPlainText(post.excerpt.rendered) || undefined
+        : undefined,
+    };
+  } catch {
+    // The page itself handles (and reports) the error
+    return {};
+  }
+}
+
+/**
+ * Blog post page
+ *
+ * Fetches the post by slug in the active locale, prefetches its related
+ * posts and the categories/tags and hydrates the client-side BlogPostView.
+ * The post content is rendered (and sanitized) on the server.
+ * Unknown slugs return a 404. In draft mode, unpublished posts are shown
+ * as well.
+ */
+export default async function BlogPostPage({ params }: BlogPostPageProps) {
+  const { slug } = await params;
+  const locale = (await getLocale()) as Locale;
+  const { isEnabled: preview } = await draftMode();
+  const queryClient = getQueryClient();
+
+  const post = await queryClient.fetchQuery({
+    queryKey: blogKeys.detail(slug, locale),
+    queryFn: () => loadPost(slug, locale),
+  });
+
+  if (!post) {
+    notFound();
+  }
+
+  const relatedParams = toRelatedPostParams(post, locale);
+
+  await Promise.all([
+    post.categories.length > 0
+      ? queryClient.prefetchQuery({
+          queryKey: blogKeys.list(relatedParams),
+          queryFn: () => getWordPressPosts(relatedParams),
+        })
+      : null,
+    queryClient.prefetchQuery({
+      queryKey: blogKeys.categories(locale),
+      queryFn: () => getWordPressCategories(locale),
+    }),
+    queryClient.prefetchQuery({
+      queryKey: blogKeys.tags(locale),
+      queryFn: () => getWordPressTags(locale),
+    }),
+  ]);
+
+  return (
+    <main id="main-content" className="container mx-auto px-4 py-8">
+      <HydrationBoundary state={dehydrate(queryClient)}>
+        <BlogPostView
+          slug={slug}
+          preview={preview}
+          content={<WordPressContent html={post.content.rendered} />}
+        />
+      </HydrationBoundary>
+    </main>
+  );
+}
@@ -0,0 +1,74 @@
+import { dehydrate, HydrationBoundary } from '@tanstack/react-query';
+import { getLocale, getTranslations } from 'next-intl/server';
+
+import { BlogIndex } from '@/components/blog/blog-index';
+import type { Locale } from '@/i18n/config';
+import { getQueryClient } from '@/lib/api/client';
+import { blogKeys } from '@/lib/api/query-keys';
+import {
+  getWordPressCategories,
+  getWordPressPosts,
+  getWordPressTags,
+} from '@/lib/api/wordpress';
+import {
+  loadBlogSearchState,
+  toBlogPostParams,
+} from '@/lib/search/blog-search-params';
+
+import type { Metadata } from 'next';
+import type { SearchParams } from 'nuqs/server';
+
+interface BlogPageProps {
+  searchParams: Promise<SearchParams>;
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations('Blog');
+
+  return {
+    title: `${t('title')} | PS Foodbook`,
+  };
+}
+
+/**
+ * Blog index page
+ *
+ * Prefetches the posts for the filters in the URL plus the categories and
+ * tags in the active locale, and hydrates the client-side BlogIndex.
+ * Failed prefetches are left to the client, which shows a retryable error.
+ */
+export default async function BlogPage({ searchParams }: BlogPageProps) {
+  const locale = (await getLocale()) as Locale;
+  const t = await getTranslations('Blog');
+  const postParams = toBlogPostParams(
+    await loadBlogSearchState(searchParams),
+    locale
+  );
+  const queryClient = getQueryClient();
+
+  await Promise.all([
+    queryClient.prefetchQuery({
+      queryKey: blogKeys.list(postParams),
+      queryFn: () => getWordPressPosts(postParams),
+    }),
+    queryClient.prefetchQuery({
+      queryKey: blogKeys.categories(locale),
+      queryFn: () => getWordPressCategories(locale),
+    }),
+    queryClient.prefetchQuery({
+      queryKey: blogKeys.tags(locale),
+      queryFn: () => getWordPressTags(locale),
+    }),
+  ]);
+
+  return (
+    <main id="main-content" className="container mx-auto px-4 py-8">
+      <div className="flex flex-col gap-8">
+        <h1 className="text-3xl font-bold">{t('title')}</h1>
+        <HydrationBoundary state={dehydrate(queryClient)}>
+          <BlogIndex />
+        </HydrationBoundary>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,125 @@
+import { cache } from 'react';
+
+import { notFound } from 'next/navigation';
+
+import { dehydrate, HydrationBoundary } from '@tanstack/react-query';
+
+import { BrandDetailView } from '@/components/brand/brand-detail-view';
+import { getQueryClient } from '@/lib/api/client';
+import { NotFoundError } from '@/lib/api/errors';
+import {
+  getBrand,
+  getProductFacets,
+  searchProducts,
+  toProductFacetParams,
+} from '@/lib/api/foodbook';
+import { brandKeys, filterKeys } from '@/lib/api/query-keys';
+import {
+  loadProductSearchState,
+  toProductSearchParams,
+} from '@/lib/search/product-search-params';
+
+import type { Metadata } from 'next';
+import type { SearchParams } from 'nuqs/server';
+
+interface BrandPageProps {
+  params: Promise<{
+    locale: string;
+    id: string;
+  }>;
+  searchParams: Promise<SearchParams>;
+}
+
+/**
+ * Brand fetch, deduplicated between generateMetadata and the page
+ */
+const loadBrand = cache((id: number) => getBrand(id));
+
+/**
+ * Parse the `[id]` route segment into a positive integer
+ */
+function parseBrandId(id: string): number | null {
+  const brandId = Number(id);
+  return Number.isInteger(brandId) && brandId > 0 ? brandId : null;
+}
+
+export async function generateMetadata({
+  params,
+}: BrandPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const brandId = parseBrandId(id);
+
+  if (brandId === null) {
+    return {};
+  }
+
+  try {
+    const brand = await loadBrand(brandId);
+
+    return {
+      title: `${brand.name} | PS Foodbook`,
+      description: brand.description || undefined,
+    };
+  } catch {
+    // The page itself handles (and reports) the error
+    return {};
+  }
+}
+
+/**
+ * Brand detail page
+ *
+ * Fetches the brand on the server and prefetches its products and filter
+ * facets for the search state in the URL, then hydrates the client-side
+ * BrandDetailView. Unknown brands return a 404.
+ */
+export default async function BrandPage({
+  params,
+  searchParams,
+}: BrandPageProps) {
+  const { id } = await params;
+  const brandId = parseBrandId(id);
+
+  if (brandId === null) {
+    notFound();
+  }
+
+  const { brands: _brands, ...productParams } = toProductSearchParams(
+    await loadProductSearchState(searchParams)
+  );
+  const facetParams = toProductFacetParams({
+    ...productParams,
+    brands: [brandId],
+  });
+  const queryClient = getQueryClient();
+
+  try {
+    await Promise.all([
+      queryClient.fetchQuery({
+        queryKey: brandKeys.detail(brandId),
+        queryFn: () => loadBrand(brandId),
+      }),
+      queryClient.prefetchQuery({
+        queryKey: brandKeys.productList(brandId, productParams),
+        queryFn: () => searchProducts({ ...productParams, brands: [brandId] }),
+      }),
+      queryClient.prefetchQuery({
+        queryKey: filterKeys.list(facetParams),
+        queryFn: () => getProductFacets(facetParams),
+      }),
+    ]);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      notFound();
+    }
+    throw error;
+  }
+
+  return (
+    <main id="main-content" className="container mx-auto px-4 py-8">
+      <HydrationBoundary state={dehydrate(queryClient)}>
+        <BrandDetailView id={brandId} />
+      </HydrationBoundary>
+    </main>
+  );
+}
@@ -0,0 +1,45 @@
+import { dehydrate, HydrationBoundary } from '@tanstack/react-query';
+import { getTranslations } from 'next-intl/server';
+
+import { BrandDirectory } from '@/components/brand/brand-directory';
+import { getQueryClient } from '@/lib/api/client';
+import { getBrands } from '@/lib/api/foodbook';
+import { brandKeys } from '@/lib/api/query-keys';
+
+import type { Metadata } from 'next';
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations('Brand');
+
+  return {
+    title: `${t('title')} | PS Foodbook`,
+  };
+}
+
+/**
+ * Brand directory page
+ *
+ * Prefetches all brands on the server and hydrates the client-side
+ * BrandDirectory. A failed prefetch is left to the client, which shows a
+ * retryable error.
+ */
+export default async function BrandsPage() {
+  const t = await getTranslations('Brand');
+  const queryClient = getQueryClient();
+
+  await queryClient.prefetchQuery({
+    queryKey: brandKeys.list({}),
+    queryFn: () => getBrands(),
+  });
+
+  return (
+    <main id="main-content" className="container mx-auto px-4 py-8">
+      <div className="flex flex-col gap-8">
+        <h1 className="text-3xl font-bold">{t('allBrands')}</h1>
+        <HydrationBoundary state={dehydrate(queryClient)}>
+          <BrandDirectory />
+        </HydrationBoundary>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,50 @@
+import { getTranslations } from 'next-intl/server';
+import { createLoader, parseAsArrayOf, parseAsInteger } from 'nuqs/server';
+
+import { CompareView } from '@/components/compare/compare-view';
+
+import type { Metadata } from 'next';
+import type { SearchParams } from 'nuqs/server';
+
+interface ComparePageProps {
+  searchParams: Promise<SearchParams>;
+}
+
+/**
+ * Products of a shared comparison: `?ids=12,34`
+ */
+const loadCompareParams = createLoader({
+  ids: parseAsArrayOf(parseAsInteger),
+});
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations('Compare');
+
+  return {
+    title: `${t('title')} | PS Foodbook`,
+  };
+}
+
+/**
+ * Compare page
+ *
+ * Shows the products in `?ids=` (shared comparisons) or otherwise the
+ * products in the compare tray, side by side. The products are loaded on
+ * the client, as the tray only exists there.
+ */
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const t = await getTranslations('Compare');
+  const { ids } = await loadCompareParams(searchParams);
+
+  return (
+    <main id="main-content" className="container mx-auto px-4 py-8">
+      <div className="flex flex-col gap-8">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-3xl font-bold">{t('title')}</h1>
+          <p className="text-muted-foreground">{t('description')}</p>
+        </div>
+        <CompareView {...(ids !== null && { ids })} />
+      </div>
+    </main>
+  );
+}
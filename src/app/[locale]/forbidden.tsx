@@ -0,0 +1,30 @@
+import { getTranslations } from 'next-intl/server';
+
+import { Button } from '@/components/ui/button';
+import { Link } from '@/i18n/routing';
+
+/**
+ * Localized 403 page
+ *
+ * Rendered (with a 403 status) when a page in the locale segment calls
+ * `forbidden()`, e.g. via requireSession.
+ */
+export default async function Forbidden() {
+  const t = await getTranslations('Errors');
+
+  return (
+    <main
+      id="main-content"
+      className="container mx-auto flex flex-col items-center gap-4 px-4 py-24 text-center"
+    >
+      <p className="text-muted-foreground text-sm font-medium">403</p>
+      <h1 className="text-3xl font-bold">{t('unauthorized')}</h1>
+      <p className="text-muted-foreground max-w-md">
+        {t('unauthorizedDescription')}
+      </p>
+      <Button asChild>
+        <Link href="/">{t('goHome')}</Link>
+      </Button>
+    </main>
+  );
+}
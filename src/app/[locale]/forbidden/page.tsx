@@ -0,0 +1,9 @@
+import { forbidden } from 'next/navigation';
+
+/**
+ * Rewrite target of the middleware for users lacking a role or
+ * permission; renders the localized 403 page
+ */
+export default function ForbiddenPage(): never {
+  forbidden();
+}
@@ -1,12 +1,19 @@
 import { Geist, Geist_Mono } from 'next/font/google';
+import { draftMode } from 'next/headers';
 import { notFound } from 'next/navigation';
 
 import { NextIntlClientProvider } from 'next-intl';
 import { getMessages } from 'next-intl/server';
+import { NuqsAdapter } from 'nuqs/adapters/next/app';
 
+import { CompareTray } from '@/components/compare/compare-tray';
 import { Header } from '@/components/layout/header';
+import { PreviewBanner } from '@/components/layout/preview-banner';
 import { QueryProvider } from '@/components/providers/query-provider';
+import { SessionProvider } from '@/components/providers/session-provider';
+import { Toaster } from '@/components/ui/sonner';
 import { locales, type Locale } from '@/i18n/config';
+import { getSession } from '@/lib/auth/session';
 
 import type { Metadata } from 'next';
 
@@ -38,7 +45,11 @@ interface LocaleLayoutProps {
  * This layout wraps all pages with the current locale.
  * It provides:
  * - next-intl messages
+ * - nuqs URL state adapter
  * - TanStack Query client
+ * - Session of the logged-in user (useSession, useUser)
+ * - Preview banner while draft mode is enabled
+ * - Toast notifications
  * - Font variables
  */
 export default async function LocaleLayout({
@@ -54,6 +65,8 @@ export default async function LocaleLayout({
 
   // Providing all messages to the client side is the easiest way to get started
   const messages = await getMessages();
+  const { isEnabled: isPreview } = await draftMode();
+  const session = await getSession();
 
   return (
     <html lang={locale} suppressHydrationWarning>
@@ -61,10 +74,17 @@ export default async function LocaleLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <NextIntlClientProvider messages={messages}>
-          <QueryProvider>
-            <Header />
-            {children}
-          </QueryProvider>
+          <NuqsAdapter>
+            <QueryProvider>
+              <SessionProvider session={session}>
+                {isPreview ? <PreviewBanner /> : null}
+                <Header />
+                {children}
+                <CompareTray />
+                <Toaster />
+              </SessionProvider>
+            </QueryProvider>
+          </NuqsAdapter>
         </NextIntlClientProvider>
       </body>
     </html>
@@ -77,4 +97,4 @@ export default async function LocaleLayout({
  */
 export function generateStaticParams() {
   return locales.map((locale) => ({ locale }));
-}
\ No newline at end of file
+}
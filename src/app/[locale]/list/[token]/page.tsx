@@ -0,0 +1,96 @@
+import { cache } from 'react';
+
+import { notFound } from 'next/navigation';
+
+import { dehydrate, HydrationBoundary } from '@tanstack/react-query';
+import { getTranslations } from 'next-intl/server';
+
+import { SharedListView } from '@/components/lists/shared-list-view';
+import { getQueryClient } from '@/lib/api/client';
+import { NotFoundError } from '@/lib/api/errors';
+import { getProductSheet } from '@/lib/api/foodbook';
+import { getSharedList, SHARED_LIST_PAGE_SIZE } from '@/lib/api/lists';
+import { productKeys } from '@/lib/api/query-keys';
+
+import type { Metadata } from 'next';
+
+interface SharedListPageProps {
+  params: Promise<{
+    locale: string;
+    token: string;
+  }>;
+}
+
+/**
+ * Shared list fetch, deduplicated between generateMetadata and the page
+ */
+const loadSharedList = cache((token: string) => getSharedList(token));
+
+export async function generateMetadata({
+  params,
+}: SharedListPageProps): Promise<Metadata> {
+  const { token } = await params;
+  const t = await getTranslations('Lists');
+
+  try {
+    const list = await loadSharedList(token);
+
+    return {
+      title: `${list.name} | PS Foodbook`,
+      description: t('sharedDescription'),
+      // Only meant for the people the link was sent to
+      robots: { index: false, follow: false },
+    };
+  } catch {
+    // The page itself handles (and reports) the error
+    return {};
+  }
+}
+
+/**
+ * Shared list page
+ *
+ * Public, read-only view of a list shared by its owner (see the account
+ * page). Prefetches the product sheets of the first page and hydrates
+ * SharedListView.
+ * Unknown tokens and lists that are no longer shared return a 404.
+ */
+export default async function SharedListPage({ params }: SharedListPageProps) {
+  const { token } = await params;
+  const t = await getTranslations('Lists');
+
+  let list;
+  try {
+    list = await loadSharedList(token);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      notFound();
+    }
+    throw error;
+  }
+
+  const queryClient = getQueryClient();
+
+  await Promise.all(
+    list.productIds.slice(0, SHARED_LIST_PAGE_SIZE).map((id) =>
+      queryClient.prefetchQuery({
+        queryKey: productKeys.detail(id),
+        queryFn: () => getProductSheet(id),
+      })
+    )
+  );
+
+  return (
+    <main id="main-content" className="container mx-auto px-4 py-8">
+      <div className="flex flex-col gap-8">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-3xl font-bold">{list.name}</h1>
+          <p className="text-muted-foreground">{t('sharedDescription')}</p>
+        </div>
+        <HydrationBoundary state={dehydrate(queryClient)}>
+          <SharedListView productIds={list.productIds} />
+        </HydrationBoundary>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,63 @@
+import { redirect } from 'next/navigation';
+
+import { getLocale, getTranslations } from 'next-intl/server';
+
+import { LoginForm } from '@/components/auth/login-form';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { returnToSchema } from '@/lib/auth/login-schema';
+import { getSession } from '@/lib/auth/session';
+
+import type { Metadata } from 'next';
+
+interface LoginPageProps {
+  searchParams: Promise<{
+    returnTo?: string | string[];
+  }>;
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations('Auth');
+
+  return {
+    title: `${t('login')} | PS Foodbook`,
+  };
+}
+
+/**
+ * Login page
+ *
+ * Returns to `returnTo` (a same-origin path) after logging in; users that
+ * are already logged in are sent there directly.
+ */
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const t = await getTranslations('Auth');
+  const { returnTo: returnToParam } = await searchParams;
+  const parsed = returnToSchema.safeParse(returnToParam);
+  const returnTo = parsed.success ? parsed.data : undefined;
+
+  if (await getSession()) {
+    redirect(returnTo ?? `/${await getLocale()}`);
+  }
+
+  return (
+    <main id="main-content" className="container mx-auto px-4 py-8">
+      <Card className="mx-auto w-full max-w-md">
+        <CardHeader>
+          <CardTitle>
+            <h1 className="text-2xl font-bold">{t('login')}</h1>
+          </CardTitle>
+          <CardDescription>{t('loginDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LoginForm {...(returnTo !== undefined && { returnTo })} />
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -0,0 +1,30 @@
+import { getTranslations } from 'next-intl/server';
+
+import { Button } from '@/components/ui/button';
+import { Link } from '@/i18n/routing';
+
+/**
+ * Localized 404 page
+ *
+ * Rendered (with a 404 status) when a page in the locale segment calls
+ * `notFound()`.
+ */
+export default async function NotFound() {
+  const t = await getTranslations('Errors');
+
+  return (
+    <main
+      id="main-content"
+      className="container mx-auto flex flex-col items-center gap-4 px-4 py-24 text-center"
+    >
+      <p className="text-muted-foreground text-sm font-medium">404</p>
+      <h1 className="text-3xl font-bold">{t('notFound')}</h1>
+      <p className="text-muted-foreground max-w-md">
+        {t('notFoundDescription')}
+      </p>
+      <Button asChild>
+        <Link href="/">{t('goHome')}</Link>
+      </Button>
+    </main>
+  );
+}
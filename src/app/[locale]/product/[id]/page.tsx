@@ -0,0 +1,94 @@
+import { cache } from 'react';
+
+import { notFound } from 'next/navigation';
+
+import { dehydrate, HydrationBoundary } from '@tanstack/react-query';
+
+import { ProductSheetView } from '@/components/product/product-sheet-view';
+import { getQueryClient } from '@/lib/api/client';
+import { NotFoundError } from '@/lib/api/errors';
+import { getProductSheet } from '@/lib/api/foodbook';
+import { productKeys } from '@/lib/api/query-keys';
+
+import type { Metadata } from 'next';
+
+interface ProductPageProps {
+  params: Promise<{
+    locale: string;
+    id: string;
+  }>;
+}
+
+/**
+ * Product sheet fetch, deduplicated between generateMetadata and the page
+ */
+const loadProductSheet = cache((id: number) => getProductSheet(id));
+
+/**
+ * Parse the `[id]` route segment into a positive integer
+ */
+function parseProductId(id: string): number | null {
+  const productId = Number(id);
+  return Number.isInteger(productId) && productId > 0 ? productId : null;
+}
+
+export async function generateMetadata({
+  params,
+}: ProductPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const productId = parseProductId(id);
+
+  if (productId === null) {
+    return {};
+  }
+
+  try {
+    const product = await loadProductSheet(productId);
+
+    return {
+      title: `${product.name} | PS Foodbook`,
+      description: product.description || undefined,
+    };
+  } catch {
+    // The page itself handles (and reports) the error
+    return {};
+  }
+}
+
+/**
+ * Product detail page
+ *
+ * Fetches the product sheet on the server, prefetches it into the
+ * TanStack Query cache and hydrates the client-side ProductSheetView.
+ * Unknown products return a 404.
+ */
+export default async function ProductPage({ params }: ProductPageProps) {
+  const { id } = await params;
+  const productId = parseProductId(id);
+
+  if (productId === null) {
+    notFound();
+  }
+
+  const queryClient = getQueryClient();
+
+  try {
+    await queryClient.fetchQuery({
+      queryKey: productKeys.detail(productId),
+      queryFn: () => loadProductSheet(productId),
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      notFound();
+    }
+    throw error;
+  }
+
+  return (
+    <main id="main-content" className="container mx-auto px-4 py-8">
+      <HydrationBoundary state={dehydrate(queryClient)}>
+        <ProductSheetView id={productId} />
+      </HydrationBoundary>
+    </main>
+  );
+}
@@ -0,0 +1,73 @@
+import { dehydrate, HydrationBoundary } from '@tanstack/react-query';
+import { getTranslations } from 'next-intl/server';
+
+import { ProductSearch } from '@/components/product/product-search';
+import { getQueryClient } from '@/lib/api/client';
+import {
+  getProductFacets,
+  searchProducts,
+  toProductFacetParams,
+} from '@/lib/api/foodbook';
+import { filterKeys, productKeys } from '@/lib/api/query-keys';
+import {
+  loadProductSearchState,
+  toProductSearchParams,
+} from '@/lib/search/product-search-params';
+
+import type { Metadata } from 'next';
+import type { SearchParams } from 'nuqs/server';
+
+interface ProductSearchPageProps {
+  searchParams: Promise<SearchParams>;
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations('Product');
+
+  return {
+    title: `${t('title')} | PS Foodbook`,
+  };
+}
+
+/**
+ * Product search page
+ *
+ * Parses the search state from the URL, prefetches the matching results
+ * (the first page in the infinite view) and filter facets on the server
+ * and hydrates the client-side ProductSearch. Failed prefetches are left
+ * to the client, which shows a retryable error.
+ */
+export default async function ProductSearchPage({
+  searchParams,
+}: ProductSearchPageProps) {
+  const state = await loadProductSearchState(searchParams);
+  const params = toProductSearchParams(state);
+  const firstPageParams = toProductSearchParams({ ...state, page: 1 });
+  const facetParams = toProductFacetParams(params);
+  const queryClient = getQueryClient();
+
+  await Promise.all([
+    state.view === 'infinite'
+      ? queryClient.prefetchInfiniteQuery({
+          queryKey: productKeys.infinite(firstPageParams),
+          queryFn: () => searchProducts(firstPageParams),
+          initialPageParam: 0,
+        })
+      : queryClient.prefetchQuery({
+          queryKey: productKeys.list(params),
+          queryFn: () => searchProducts(params),
+        }),
+    queryClient.prefetchQuery({
+      queryKey: filterKeys.list(facetParams),
+      queryFn: () => getProductFacets(facetParams),
+    }),
+  ]);
+
+  return (
+    <main id="main-content" className="container mx-auto px-4 py-8">
+      <HydrationBoundary state={dehydrate(queryClient)}>
+        <ProductSearch />
+      </HydrationBoundary>
+    </main>
+  );
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+
+import { refreshTokens } from '@/lib/api/auth';
+import { UnauthorizedError } from '@/lib/api/errors';
+import {
+  clearSessionCookies,
+  getRefreshToken,
+  getSession,
+  setSessionCookies,
+} from '@/lib/auth/session';
+
+/**
+ * Sessions expiring later than this are not renewed yet
+ *
+ * Tabs renewing right after each other then get the session the first
+ * one renewed, instead of presenting the already used refresh token
+ * (which the backend treats as reuse). This relies on the requests being
+ * sequential, which the client's Web Lock ensures (see
+ * useSessionRenewal); concurrent requests would both rotate the token.
+ */
+const RENEW_WINDOW_MS = 2 * 60 * 1000;
+
+/**
+ * Renew the session
+ *
+ * Exchanges the refresh cookie for a new session JWT and (rotated)
+ * refresh token. When the backend rejects the refresh token (expired,
+ * revoked or reused) both cookies are cleared, ending the session.
+ *
+ * @returns `{ expiresAt }` (ms timestamp) of the renewed session; 401
+ * when the session cannot be renewed
+ */
+export async function POST() {
+  const session = await getSession();
+
+  if (session && session.expiresAt.getTime() - Date.now() > RENEW_WINDOW_MS) {
+    return NextResponse.json({ expiresAt: session.expiresAt.getTime() });
+  }
+
+  const refreshToken = await getRefreshToken();
+
+  if (!refreshToken) {
+    await clearSessionCookies();
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const tokens = await refreshTokens(refreshToken);
+    await setSessionCookies(tokens);
+
+    return NextResponse.json({ expiresAt: tokens.expiresAt.getTime() });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      await clearSessionCookies();
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error('Session renewal failed:', error);
+    return NextResponse.json(
+      { message: 'Session renewal failed' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+
+import { getSession } from '@/lib/auth/session';
+
+/**
+ * Get the current session
+ *
+ * Only returns the verified user and expiry, never the tokens. Used by
+ * `useSession` to pick up logins, logouts and renewals.
+ *
+ * @returns The session, or null when not logged in
+ */
+export async function GET() {
+  const session = await getSession();
+
+  return NextResponse.json(session, {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
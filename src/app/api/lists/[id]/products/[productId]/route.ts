@@ -0,0 +1,61 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { addListProduct, removeListProduct } from '@/lib/api/lists';
+
+import {
+  handleListsRequest,
+  notFoundResponse,
+  parseIdParam,
+} from '../../../handler';
+
+interface ListProductRouteContext {
+  params: Promise<{ id: string; productId: string }>;
+}
+
+/**
+ * Add a product to, or remove it from, a list
+ *
+ * Both are idempotent, so retried or out-of-order toggles settle on the
+ * last requested state.
+ */
+async function handleListProduct(
+  { params }: ListProductRouteContext,
+  included: boolean
+): Promise<Response> {
+  const { id, productId: productIdParam } = await params;
+  const listId = parseIdParam(id);
+  const productId = parseIdParam(productIdParam);
+
+  if (listId === null || productId === null) {
+    return notFoundResponse();
+  }
+
+  return handleListsRequest(async (token) => {
+    await (included ? addListProduct : removeListProduct)(
+      token,
+      listId,
+      productId
+    );
+    return new NextResponse(null, { status: 204 });
+  });
+}
+
+/**
+ * Add a product to a list
+ */
+export async function PUT(
+  _request: NextRequest,
+  context: ListProductRouteContext
+) {
+  return handleListProduct(context, true);
+}
+
+/**
+ * Remove a product from a list
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: ListProductRouteContext
+) {
+  return handleListProduct(context, false);
+}
@@ -0,0 +1,65 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { z } from 'zod';
+
+import { deleteList, listNameSchema, renameList } from '@/lib/api/lists';
+
+import { handleListsRequest, notFoundResponse, parseIdParam } from '../handler';
+
+interface ListRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const renameListRequestSchema = z.object({
+  name: listNameSchema,
+});
+
+/**
+ * Rename a named list
+ *
+ * @returns The renamed list
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: ListRouteContext
+) {
+  const listId = parseIdParam((await params).id);
+
+  if (listId === null) {
+    return notFoundResponse();
+  }
+
+  const result = renameListRequestSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { message: 'Invalid payload', issues: result.error.issues },
+      { status: 400 }
+    );
+  }
+
+  return handleListsRequest(async (token) =>
+    NextResponse.json(await renameList(token, listId, result.data.name))
+  );
+}
+
+/**
+ * Delete a named list
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: ListRouteContext
+) {
+  const listId = parseIdParam((await params).id);
+
+  if (listId === null) {
+    return notFoundResponse();
+  }
+
+  return handleListsRequest(async (token) => {
+    await deleteList(token, listId);
+    return new NextResponse(null, { status: 204 });
+  });
+}
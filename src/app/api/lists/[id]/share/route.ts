@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { setListShared } from '@/lib/api/lists';
+
+import {
+  handleListsRequest,
+  notFoundResponse,
+  parseIdParam,
+} from '../../handler';
+
+interface ListShareRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Share a list or stop sharing it
+ *
+ * @returns The list, with its share token (null when not shared)
+ */
+async function handleShare(
+  { params }: ListShareRouteContext,
+  shared: boolean
+): Promise<Response> {
+  const listId = parseIdParam((await params).id);
+
+  if (listId === null) {
+    return notFoundResponse();
+  }
+
+  return handleListsRequest(async (token) =>
+    NextResponse.json(await setListShared(token, listId, shared))
+  );
+}
+
+/**
+ * Share a list: anyone with the link can view it
+ */
+export async function POST(
+  _request: NextRequest,
+  context: ListShareRouteContext
+) {
+  return handleShare(context, true);
+}
+
+/**
+ * Stop sharing a list: earlier links stop working
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: ListShareRouteContext
+) {
+  return handleShare(context, false);
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+
+import { ApiError } from '@/lib/api/errors';
+import { getSessionToken } from '@/lib/auth/session';
+
+/**
+ * Messages for backend client errors passed on to the browser
+ */
+const CLIENT_ERROR_MESSAGES: Partial<Record<number, string>> = {
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not found',
+  409: 'Conflict',
+  429: 'Too many requests',
+};
+
+/**
+ * Handle a lists request on behalf of the logged-in user
+ *
+ * Passes the session token to `handle` and maps failures to responses:
+ * 401 without a session, the backend status for client errors (e.g. 404
+ * for another user's list) and 502 when the backend fails.
+ */
+export async function handleListsRequest(
+  handle: (token: string) => Promise<Response>
+): Promise<Response> {
+  const token = await getSessionToken();
+
+  if (!token) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return await handle(token);
+  } catch (error) {
+    if (
+      error instanceof ApiError &&
+      error.status >= 400 &&
+      error.status < 500
+    ) {
+      // The error message names the backend endpoint; keep it server-side
+      return NextResponse.json(
+        { message: CLIENT_ERROR_MESSAGES[error.status] ?? 'Invalid request' },
+        { status: error.status }
+      );
+    }
+
+    console.error('Lists request failed:', error);
+    return NextResponse.json(
+      { message: 'Lists request failed' },
+      { status: 502 }
+    );
+  }
+}
+
+/**
+ * Parse a list or product ID route param
+ *
+ * @returns The ID, or null when the param is not a positive integer
+ */
+export function parseIdParam(value: string): number | null {
+  const id = Number(value);
+
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Response for invalid route params
+ */
+export function notFoundResponse(): Response {
+  return NextResponse.json({ message: 'Not found' }, { status: 404 });
+}
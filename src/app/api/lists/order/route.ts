@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { z } from 'zod';
+
+import { reorderLists } from '@/lib/api/lists';
+
+import { handleListsRequest } from '../handler';
+
+const reorderListsRequestSchema = z.object({
+  listIds: z.array(z.number().int().positive()).min(1),
+});
+
+/**
+ * Reorder the lists of the logged-in user
+ *
+ * @example
+ * ```http
+ * PUT /api/lists/order
+ * Content-Type: application/json
+ *
+ * { "listIds": [3, 1, 2] }
+ * ```
+ */
+export async function PUT(request: NextRequest) {
+  const result = reorderListsRequestSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { message: 'Invalid payload', issues: result.error.issues },
+      { status: 400 }
+    );
+  }
+
+  return handleListsRequest(async (token) => {
+    await reorderLists(token, result.data.listIds);
+    return new NextResponse(null, { status: 204 });
+  });
+}
@@ -0,0 +1,54 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { z } from 'zod';
+
+import { createList, getLists, listNameSchema } from '@/lib/api/lists';
+
+import { handleListsRequest } from './handler';
+
+const createListRequestSchema = z.object({
+  name: listNameSchema,
+});
+
+/**
+ * Get the lists of the logged-in user, favorites included
+ */
+export async function GET() {
+  return handleListsRequest(async (token) =>
+    NextResponse.json(await getLists(token), {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  );
+}
+
+/**
+ * Create a named list
+ *
+ * @example
+ * ```http
+ * POST /api/lists
+ * Content-Type: application/json
+ *
+ * { "name": "Winter menu" }
+ * ```
+ *
+ * @returns The created list (201)
+ */
+export async function POST(request: NextRequest) {
+  const result = createListRequestSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { message: 'Invalid payload', issues: result.error.issues },
+      { status: 400 }
+    );
+  }
+
+  return handleListsRequest(async (token) =>
+    NextResponse.json(await createList(token, result.data.name), {
+      status: 201,
+    })
+  );
+}
@@ -0,0 +1,21 @@
+import { draftMode } from 'next/headers';
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { isSameOriginPath } from '@/lib/same-origin-path';
+
+/**
+ * Leave preview mode
+ *
+ * Disables draft mode and redirects to `returnTo` (the page the editor
+ * was previewing). Only same-origin paths are accepted, to avoid an open
+ * redirect.
+ */
+export async function GET(request: NextRequest) {
+  const returnTo = request.nextUrl.searchParams.get('returnTo');
+  const pathname =
+    returnTo !== null && isSameOriginPath(returnTo) ? returnTo : '/';
+
+  (await draftMode()).disable();
+
+  return NextResponse.redirect(new URL(pathname, request.url));
+}
@@ -0,0 +1,91 @@
+import { draftMode } from 'next/headers';
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+import { z } from 'zod';
+
+import { locales } from '@/i18n/config';
+import { getPathname } from '@/i18n/routing';
+import { getWordPressPreviewTarget, toPagePath } from '@/lib/api/wordpress';
+
+/**
+ * Query parameters of a preview link
+ */
+const previewParamsSchema = z.object({
+  type: z.enum(['page', 'post']),
+  id: z.coerce.number().int().positive(),
+  locale: z.enum(locales),
+  /** Unix timestamp (seconds) after which the link is no longer valid */
+  expires: z.coerce.number().int(),
+  /** Hex encoded HMAC-SHA256 of `type:id:locale:expires` */
+  signature: z.string().regex(/^[0-9a-f]{64}$/i),
+});
+
+type PreviewParams = z.infer<typeof previewParamsSchema>;
+
+/**
+ * Check the signature of a preview link against WP_PREVIEW_SECRET
+ */
+function isValidSignature(params: PreviewParams, secret: string): boolean {
+  const expected = createHmac('sha256', secret)
+    .update([params.type, params.id, params.locale, params.expires].join(':'))
+    .digest();
+
+  return timingSafeEqual(expected, Buffer.from(params.signature, 'hex'));
+}
+
+/**
+ * Enter preview mode
+ *
+ * Target of the "Preview" button in WordPress, which links to
+ * `/api/preview?type=post&id=123&locale=nl&expires=…&signature=…`, signed
+ * with the shared WP_PREVIEW_SECRET. Valid links enable Next.js draft mode
+ * (the WordPress client then fetches drafts and unsaved changes) and
+ * redirect to the page or post on the frontend.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.WP_PREVIEW_SECRET;
+
+  if (!secret) {
+    return new NextResponse('Preview mode is not configured', { status: 501 });
+  }
+
+  const result = previewParamsSchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+
+  if (!result.success || !isValidSignature(result.data, secret)) {
+    return new NextResponse('Invalid preview link', { status: 401 });
+  }
+
+  const { type, id, locale, expires } = result.data;
+
+  if (expires * 1000 < Date.now()) {
+    return new NextResponse('Preview link has expired', { status: 401 });
+  }
+
+  const target = await getWordPressPreviewTarget(`${type}s`, id);
+
+  if (!target?.slug) {
+    return new NextResponse('Preview content not found', { status: 404 });
+  }
+
+  const pathname =
+    type === 'post'
+      ? getPathname({
+          locale,
+          href: { pathname: '/blog/[slug]', params: { slug: target.slug } },
+        })
+      : getPathname({
+          locale,
+          // Unpublished pages have no permalink yet
+          href: (toPagePath(target.link) || `/${target.slug}`) as Parameters<
+            typeof getPathname
+          >[0]['href'],
+        });
+
+  (await draftMode()).enable();
+
+  return NextResponse.redirect(new URL(pathname, request.url));
+}
@@ -0,0 +1,91 @@
+import { revalidateTag } from 'next/cache';
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+import { z } from 'zod';
+
+import { getWordPressCacheTags } from '@/lib/api/wordpress';
+
+/**
+ * Webhook payload, sent by WordPress when a menu, page, post, category or
+ * tag is saved or deleted
+ */
+const revalidateRequestSchema = z.object({
+  type: z.enum(['menu', 'page', 'post', 'category', 'tag']),
+  action: z.enum(['save', 'delete']),
+  slug: z.string().min(1),
+  /** Slug before the save, when it was changed */
+  previous_slug: z.string().min(1).optional(),
+});
+
+/**
+ * Check the bearer token against WP_REVALIDATE_SECRET
+ *
+ * Compares digests, so the check takes the same time for any token.
+ */
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const header = request.headers.get('authorization') ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+
+  return timingSafeEqual(digest(token), digest(secret));
+}
+
+/**
+ * On-demand revalidation webhook for WordPress content
+ *
+ * Invalidates the cache tags of the saved or deleted resource in all
+ * locales (see getWordPressCacheTags), so edits show up immediately
+ * instead of after the `revalidate` interval. Requests are authenticated
+ * with `Authorization: Bearer <WP_REVALIDATE_SECRET>`.
+ *
+ * @example
+ * ```http
+ * POST /api/revalidate
+ * Authorization: Bearer …
+ * Content-Type: application/json
+ *
+ * { "type": "page", "action": "save", "slug": "over-ons" }
+ * ```
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.WP_REVALIDATE_SECRET;
+
+  if (!secret) {
+    return NextResponse.json(
+      { message: 'Revalidation is not configured' },
+      { status: 501 }
+    );
+  }
+
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const result = revalidateRequestSchema.safeParse(
+    await request.json().catch(() => null)
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { message: 'Invalid payload', issues: result.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const { type, slug, previous_slug } = result.data;
+  const slugs = previous_slug === undefined ? [slug] : [slug, previous_slug];
+  const tags = [
+    ...new Set(
+      slugs.flatMap((item) => getWordPressCacheTags({ type, slug: item }))
+    ),
+  ];
+
+  for (const tag of tags) {
+    // Expire immediately: the next request waits for fresh content
+    revalidateTag(tag, { expire: 0 });
+  }
+
+  return NextResponse.json({ revalidated: true, tags });
+}
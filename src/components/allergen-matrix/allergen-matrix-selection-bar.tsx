@@ -0,0 +1,44 @@
+'use client';
+
+import { Grid3x3 } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+
+import { Button } from '@/components/ui/button';
+import { Link } from '@/i18n/routing';
+import { useAllergenMatrixSelection } from '@/lib/stores/allergen-matrix-store';
+
+/**
+ * Allergen Matrix Selection Bar
+ *
+ * Shows how many products are selected for the allergen matrix, with
+ * links to the matrix and to clear the selection. Hidden without a
+ * selection.
+ *
+ * Accessibility:
+ * - Count changes announced via aria-live
+ */
+export function AllergenMatrixSelectionBar() {
+  const t = useTranslations('AllergenMatrix');
+  const { productIds, clear } = useAllergenMatrixSelection();
+
+  return (
+    <div aria-live="polite">
+      {productIds.length > 0 ? (
+        <div className="bg-muted flex flex-wrap items-center justify-between gap-2 rounded-md px-4 py-2 text-sm">
+          <p>{t('selectedCount', { count: productIds.length })}</p>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={clear}>
+              {t('clear')}
+            </Button>
+            <Button asChild size="sm">
+              <Link href="/allergen-matrix">
+                <Grid3x3 aria-hidden="true" />
+                {t('view')}
+              </Link>
+            </Button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
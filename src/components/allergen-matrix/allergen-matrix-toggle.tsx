@@ -0,0 +1,42 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { useAllergenMatrixSelection } from '@/lib/stores/allergen-matrix-store';
+import { cn } from '@/lib/utils';
+
+interface AllergenMatrixToggleProps {
+  productId: number;
+  productName: string;
+  className?: string;
+}
+
+/**
+ * Allergen Matrix Toggle
+ *
+ * Checkbox that adds a product to (or removes it from) the allergen
+ * matrix selection.
+ */
+export function AllergenMatrixToggle({
+  productId,
+  productName,
+  className,
+}: AllergenMatrixToggleProps) {
+  const t = useTranslations('AllergenMatrix');
+  const { productIds, toggle } = useAllergenMatrixSelection();
+
+  return (
+    <Label className={cn('text-xs font-normal', className)}>
+      <Checkbox
+        checked={productIds.includes(productId)}
+        onCheckedChange={() => {
+          toggle(productId);
+        }}
+        aria-label={t('selectProduct', { name: productName })}
+      />
+      <span aria-hidden="true">{t('select')}</span>
+    </Label>
+  );
+}
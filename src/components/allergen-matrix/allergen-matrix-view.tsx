@@ -0,0 +1,253 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Download, X } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+
+import { AllergenIcon } from '@/components/product/allergen-icon';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Link } from '@/i18n/routing';
+import {
+  exportAllergenMatrix,
+  toAllergenMatrix,
+  type AllergenMatrixFormat,
+  type AllergenMatrixLabels,
+} from '@/lib/allergen-matrix';
+import { ALLERGEN_CODES } from '@/lib/allergens';
+import type { ProductAllergen } from '@/lib/api/foodbook';
+import { useProductsByIds } from '@/lib/hooks/use-products';
+import { useAllergenMatrixSelection } from '@/lib/stores/allergen-matrix-store';
+
+interface AllergenMatrixViewProps {
+  /**
+   * Products from the URL (shared links, lists); without them the
+   * selection is shown
+   */
+  ids?: number[];
+}
+
+/**
+ * Export formats, in menu order
+ */
+const EXPORT_FORMATS = [
+  { format: 'csv', label: 'exportCsv' },
+  { format: 'xlsx', label: 'exportXlsx' },
+  { format: 'pdf', label: 'exportPdf' },
+] as const satisfies ReadonlyArray<{
+  format: AllergenMatrixFormat;
+  label: string;
+}>;
+
+/**
+ * Allergen Matrix View
+ *
+ * Products × EU-14 allergens table marking "contains" as X and "may
+ * contain" as (X), with the declared sub-types, and an export menu for
+ * CSV, XLSX and PDF with the same localized headers.
+ *
+ * Accessibility:
+ * - Table with column and row headers
+ * - Marks spelled out for screen readers
+ * - Export failures announced via toast
+ */
+export function AllergenMatrixView({ ids }: AllergenMatrixViewProps) {
+  const t = useTranslations('AllergenMatrix');
+  const tAllergens = useTranslations('Allergens');
+  const tProduct = useTranslations('Product');
+  const tCommon = useTranslations('Common');
+  const selection = useAllergenMatrixSelection();
+  const productIds = ids ?? selection.productIds;
+  const { products, isPending, isError, refetch } =
+    useProductsByIds(productIds);
+  const [exporting, setExporting] = useState(false);
+  const rows = toAllergenMatrix(products);
+
+  const formatSubtypes = (allergen: ProductAllergen) =>
+    allergen.subtypes
+      .map((subtype) => tAllergens(`subtypes.${subtype}`))
+      .join(', ');
+
+  const mark = (allergen: ProductAllergen) =>
+    allergen.level === 'contains' ? 'X' : '(X)';
+
+  const labels: AllergenMatrixLabels = {
+    title: t('title'),
+    product: t('product'),
+    brand: tProduct('brand'),
+    articleNumber: tProduct('articleNumber'),
+    allergens: Object.fromEntries(
+      ALLERGEN_CODES.map((code) => [code, tAllergens(`names.${code}`)])
+    ) as AllergenMatrixLabels['allergens'],
+    mark: (allergen) =>
+      allergen.subtypes.length > 0
+        ? `${mark(allergen)} ${formatSubtypes(allergen)}`
+        : mark(allergen),
+    legend: t('legend'),
+  };
+
+  const handleExport = async (format: AllergenMatrixFormat) => {
+    setExporting(true);
+    try {
+      await exportAllergenMatrix(format, rows, labels, t('fileName'));
+    } catch (error) {
+      console.error('Allergen matrix export failed:', error);
+      toast.error(t('exportFailed'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (productIds.length === 0) {
+    return <p className="text-muted-foreground">{t('empty')}</p>;
+  }
+
+  if (isPending) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {isError ? (
+        <div className="flex flex-col items-start gap-2" role="alert">
+          <p className="text-destructive">{tCommon('error')}</p>
+          <Button variant="outline" size="sm" onClick={refetch}>
+            {tCommon('tryAgain')}
+          </Button>
+        </div>
+      ) : null}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-muted-foreground text-sm">{t('legend')}</p>
+        <div className="flex gap-2">
+          {ids === undefined ? (
+            <Button variant="ghost" size="sm" onClick={selection.clear}>
+              {t('clear')}
+            </Button>
+          ) : null}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" disabled={exporting || rows.length === 0}>
+                <Download aria-hidden="true" />
+                {t('export')}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <DropdownMenuItem
+                  key={format}
+                  onSelect={() => void handleExport(format)}
+                >
+                  {t(label)}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="bg-background sticky left-0 min-w-48">
+              {t('product')}
+            </TableHead>
+            {ALLERGEN_CODES.map((code) => (
+              <TableHead key={code} className="h-auto py-2 text-center">
+                <span className="flex flex-col items-center gap-1 text-xs whitespace-normal">
+                  <AllergenIcon code={code} />
+                  {labels.allergens[code]}
+                </span>
+              </TableHead>
+            ))}
+            {ids === undefined ? (
+              <TableHead>
+                <span className="sr-only">{tCommon('delete')}</span>
+              </TableHead>
+            ) : null}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ product, allergens }) => (
+            <TableRow key={product.id}>
+              <TableHead
+                scope="row"
+                className="bg-background sticky left-0 font-normal whitespace-normal"
+              >
+                <Link
+                  href={{
+                    pathname: '/product/[id]',
+                    params: { id: product.id },
+                  }}
+                  className="font-medium hover:underline"
+                >
+                  {product.name}
+                </Link>
+                <span className="text-muted-foreground block text-xs">
+                  {product.brand} · {product.articleNumber}
+                </span>
+              </TableHead>
+              {ALLERGEN_CODES.map((code) => {
+                const allergen = allergens[code];
+
+                return (
+                  <TableCell key={code} className="text-center">
+                    {allergen ? (
+                      <span
+                        className={
+                          allergen.level === 'contains'
+                            ? 'text-destructive font-semibold'
+                            : 'text-amber-700 dark:text-amber-400'
+                        }
+                      >
+                        <span aria-hidden="true">{mark(allergen)}</span>
+                        <span className="sr-only">
+                          {tAllergens(`levels.${allergen.level}`)}
+                        </span>
+                        {allergen.subtypes.length > 0 ? (
+                          <span className="block text-xs font-normal whitespace-normal">
+                            {formatSubtypes(allergen)}
+                          </span>
+                        ) : null}
+                      </span>
+                    ) : null}
+                  </TableCell>
+                );
+              })}
+              {ids === undefined ? (
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={t('remove', { name: product.name })}
+                    onClick={() => {
+                      selection.remove(product.id);
+                    }}
+                  >
+                    <X aria-hidden="true" />
+                  </Button>
+                </TableCell>
+              ) : null}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
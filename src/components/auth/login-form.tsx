@@ -0,0 +1,140 @@
+'use client';
+
+import { useId, useState } from 'react';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useTranslations } from 'next-intl';
+import { Controller, useForm } from 'react-hook-form';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { loginAction, type LoginError } from '@/lib/auth/actions';
+import {
+  loginSchema,
+  type LoginFormValues,
+  type LoginValidationKey,
+} from '@/lib/auth/login-schema';
+
+interface LoginFormProps {
+  /**
+   * Path to redirect to after a successful login
+   */
+  returnTo?: string;
+}
+
+/**
+ * Login Form Component
+ *
+ * Email/password form with "remember me", validated client-side with the
+ * shared login schema before calling the login server action, which sets
+ * the session cookie and redirects.
+ *
+ * Accessibility:
+ * - Labels associated with all fields
+ * - Field errors linked via aria-describedby and aria-invalid
+ * - Login failures announced via role="alert"
+ * - Autocomplete hints for password managers
+ */
+export function LoginForm({ returnTo }: LoginFormProps) {
+  const t = useTranslations('Auth');
+  const tErrors = useTranslations('Errors');
+  const id = useId();
+  const [loginError, setLoginError] = useState<LoginError | null>(null);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<LoginFormValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { email: '', password: '', rememberMe: false },
+  });
+
+  const onSubmit = async (values: LoginFormValues) => {
+    setLoginError(null);
+    // Only returns on failure; a successful login redirects
+    const { error } = await loginAction(values, returnTo);
+    setLoginError(error);
+  };
+
+  const fieldError = (field: 'email' | 'password') => {
+    const message = errors[field]?.message;
+
+    return message ? (
+      <p id={`${id}-${field}-error`} className="text-destructive text-sm">
+        {t(message as LoginValidationKey)}
+      </p>
+    ) : null;
+  };
+
+  return (
+    <form
+      className="flex flex-col gap-4"
+      noValidate
+      onSubmit={(event) => void handleSubmit(onSubmit)(event)}
+    >
+      {loginError !== null ? (
+        <p
+          role="alert"
+          className="bg-destructive/10 text-destructive rounded-md px-3 py-2 text-sm"
+        >
+          {loginError === 'invalidCredentials'
+            ? t('loginError')
+            : tErrors(`${loginError}Description`)}
+        </p>
+      ) : null}
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor={`${id}-email`}>{t('email')}</Label>
+        <Input
+          id={`${id}-email`}
+          type="email"
+          autoComplete="username"
+          aria-invalid={errors.email !== undefined}
+          aria-describedby={errors.email ? `${id}-email-error` : undefined}
+          {...register('email')}
+        />
+        {fieldError('email')}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor={`${id}-password`}>{t('password')}</Label>
+        <Input
+          id={`${id}-password`}
+          type="password"
+          autoComplete="current-password"
+          aria-invalid={errors.password !== undefined}
+          aria-describedby={
+            errors.password ? `${id}-password-error` : undefined
+          }
+          {...register('password')}
+        />
+        {fieldError('password')}
+      </div>
+
+      <Controller
+        control={control}
+        name="rememberMe"
+        render={({ field }) => (
+          <Label className="font-normal">
+            <Checkbox
+              checked={field.value}
+              onCheckedChange={(checked) => {
+                field.onChange(checked === true);
+              }}
+              onBlur={field.onBlur}
+            />
+            {t('rememberMe')}
+          </Label>
+        )}
+      />
+
+      <Button type="submit" disabled={isSubmitting}>
+        {t('login')}
+      </Button>
+    </form>
+  );
+}
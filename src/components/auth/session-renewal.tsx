@@ -0,0 +1,58 @@
+'use client';
+
+import { useMemo } from 'react';
+
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+
+import { useRouter } from '@/i18n/routing';
+import { useSessionRenewal } from '@/lib/hooks/use-session-renewal';
+
+interface SessionRenewalProps {
+  /**
+   * Expiry of the current session (ms timestamp): 0 for an expired
+   * session that can still be renewed, null when logged out
+   */
+  expiresAt: number | null;
+}
+
+/**
+ * Session Renewal Component
+ *
+ * Keeps the session alive while the app is open (useSessionRenewal) and
+ * restores expired sessions that can still be renewed. When it cannot be
+ * renewed, the user is told with a toast offering to log in again, and
+ * the page is refreshed into its logged-out state.
+ */
+export function SessionRenewal({ expiresAt }: SessionRenewalProps) {
+  const t = useTranslations('Auth');
+  const router = useRouter();
+
+  const callbacks = useMemo(
+    () => ({
+      onRenewed: () => {
+        router.refresh();
+      },
+      onExpired: () => {
+        toast.error(t('sessionExpired'), {
+          duration: Infinity,
+          action: {
+            label: t('login'),
+            onClick: () => {
+              router.push({
+                pathname: '/login',
+                query: { returnTo: window.location.pathname },
+              });
+            },
+          },
+        });
+        router.refresh();
+      },
+    }),
+    [router, t]
+  );
+
+  useSessionRenewal(expiresAt, callbacks);
+
+  return null;
+}
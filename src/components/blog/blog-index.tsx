@@ -0,0 +1,175 @@
+'use client';
+
+import { useLocale, useTranslations } from 'next-intl';
+
+import { ProductPagination } from '@/components/product/product-pagination';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { Locale } from '@/i18n/config';
+import { toPlainText } from '@/lib/api/wordpress';
+import {
+  useBlogCategories,
+  useBlogPosts,
+  useBlogTags,
+  type WordPressTerm,
+} from '@/lib/hooks/use-blog';
+import { useBlogSearchState } from '@/lib/hooks/use-blog-search';
+import { toBlogPostParams } from '@/lib/search/blog-search-params';
+
+import { BlogPostCard } from './blog-post-card';
+
+/**
+ * Blog Index Component
+ *
+ * Paginated overview of blog posts in the active locale, filterable by
+ * category and tag. The filters live in the URL (nuqs); the posts come
+ * from useBlogPosts keyed by blogKeys.list(params) and are prefetched by
+ * the server page.
+ *
+ * Accessibility:
+ * - Filter buttons expose their state via aria-pressed
+ * - aria-busy on the post grid while fetching
+ */
+export function BlogIndex() {
+  const t = useTranslations('Blog');
+  const tCommon = useTranslations('Common');
+  const locale = useLocale() as Locale;
+  const [search, setSearch] = useBlogSearchState();
+  const { data, isPending, isError, isFetching, refetch } = useBlogPosts(
+    toBlogPostParams(search, locale)
+  );
+  const { data: categories } = useBlogCategories();
+  const { data: tags } = useBlogTags();
+
+  const handlePageChange = (page: number) => {
+    void setSearch({ page });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex flex-col gap-4">
+        <TermFilter
+          label={t('categories')}
+          terms={categories}
+          selected={search.category}
+          onChange={(category) => {
+            void setSearch({ category, page: null });
+          }}
+        />
+        <TermFilter
+          label={t('tags')}
+          terms={tags}
+          selected={search.tag}
+          onChange={(tag) => {
+            void setSearch({ tag, page: null });
+          }}
+        />
+      </div>
+
+      {isPending ? (
+        <BlogGridSkeleton />
+      ) : isError ? (
+        <div className="flex flex-col items-start gap-2" role="alert">
+          <p className="text-destructive">{tCommon('error')}</p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              void refetch();
+            }}
+          >
+            {tCommon('tryAgain')}
+          </Button>
+        </div>
+      ) : data.posts.length === 0 ? (
+        <p className="text-muted-foreground">{t('noPostsFound')}</p>
+      ) : (
+        <ul
+          className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3"
+          role="list"
+          aria-busy={isFetching}
+        >
+          {data.posts.map((post) => (
+            <li key={post.id} className="flex">
+              <BlogPostCard post={post} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {data ? (
+        <ProductPagination
+          page={search.page}
+          totalPages={data.totalPages}
+          onPageChange={handlePageChange}
+        />
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Single-select category/tag filter
+ */
+function TermFilter({
+  label,
+  terms,
+  selected,
+  onChange,
+}: {
+  label: string;
+  terms: WordPressTerm[] | undefined;
+  selected: number | null;
+  onChange: (id: number | null) => void;
+}) {
+  const t = useTranslations('Blog');
+
+  if (!terms || terms.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-2" role="group" aria-label={label}>
+      <span className="text-sm font-medium">{label}</span>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant={selected === null ? 'secondary' : 'outline'}
+          size="sm"
+          aria-pressed={selected === null}
+          onClick={() => {
+            onChange(null);
+          }}
+        >
+          {t('allPosts')}
+        </Button>
+        {terms.map((term) => (
+          <Button
+            key={term.id}
+            variant={selected === term.id ? 'secondary' : 'outline'}
+            size="sm"
+            aria-pressed={selected === term.id}
+            onClick={() => {
+              onChange(selected === term.id ? null : term.id);
+            }}
+          >
+            {toPlainText(term.name)}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Loading state matching the post grid
+ */
+function BlogGridSkeleton() {
+  return (
+    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+      {Array.from({ length: 6 }, (_, index) => (
+        <Skeleton key={index} className="aspect-[4/5] rounded-xl" />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import Image from 'next/image';
+
+import { useTranslations } from 'next-intl';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { Link } from '@/i18n/routing';
+import {
+  getFeaturedImage,
+  toPlainText,
+  type WordPressPost,
+} from '@/lib/api/wordpress';
+
+import { PostDate } from './post-date';
+
+interface BlogPostCardProps {
+  post: WordPressPost;
+}
+
+/**
+ * Blog Post Card Component
+ *
+ * Post teaser with featured image, date, title and excerpt.
+ * The whole card links to the post.
+ *
+ * Accessibility:
+ * - Single link per card (no nested interactive elements)
+ * - Post title as link text, image is decorative
+ * - Visible focus indicator
+ */
+export function BlogPostCard({ post }: BlogPostCardProps) {
+  const t = useTranslations('Blog');
+  const image = getFeaturedImage(post);
+  const excerpt = post.excerpt ? toPlainText(post.excerpt.rendered) : '';
+
+  return (
+    <Card className="has-[a:focus-visible]:ring-ring relative w-full gap-4 overflow-hidden py-0 transition-shadow hover:shadow-md has-[a:focus-visible]:ring-2">
+      <div className="bg-muted relative aspect-video">
+        {image ? (
+          <Image
+            src={image.source_url}
+            alt=""
+            fill
+            sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+            className="object-cover"
+          />
+        ) : null}
+      </div>
+      <CardContent className="flex flex-1 flex-col gap-2 px-4 pb-4">
+        <PostDate
+          date={post.date}
+          className="text-muted-foreground text-xs font-medium"
+        />
+        <h3 className="line-clamp-2 font-semibold">
+          <Link
+            href={{ pathname: '/blog/[slug]', params: { slug: post.slug } }}
+            className="after:absolute after:inset-0 focus-visible:outline-none"
+          >
+            {toPlainText(post.title.rendered)}
+          </Link>
+        </h3>
+        {excerpt ? (
+          <p className="text-muted-foreground line-clamp-3 text-sm">
+            {excerpt}
+          </p>
+        ) : null}
+        <span
+          className="text-primary mt-auto text-sm font-medium"
+          aria-hidden="true"
+        >
+          {t('readMore')}
+        </span>
+      </CardContent>
+    </Card>
+  );
+}
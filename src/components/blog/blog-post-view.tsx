@@ -0,0 +1,213 @@
+'use client';
+
+import Image from 'next/image';
+
+import { ArrowLeft } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+
+import { Badge } from '@/components/ui/badge';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Link } from '@/i18n/routing';
+import {
+  getFeaturedImage,
+  getPostAuthorName,
+  toPlainText,
+  type WordPressTerm,
+} from '@/lib/api/wordpress';
+import {
+  useBlogCategories,
+  useBlogPost,
+  useBlogTags,
+  useRelatedPosts,
+} from '@/lib/hooks/use-blog';
+
+import { BlogPostCard } from './blog-post-card';
+import { PostDate } from './post-date';
+
+interface BlogPostViewProps {
+  /**
+   * Post slug (the post is expected to be prefetched on the server)
+   */
+  slug: string;
+  /**
+   * Post content, rendered on the server by WordPressContent
+   */
+  content: React.ReactNode;
+  /**
+   * Whether the prefetched post is a draft-mode version, which must not
+   * be replaced by the published one on refetch
+   */
+  preview?: boolean;
+}
+
+/**
+ * Blog Post View
+ *
+ * Client-side blog post: title, date and author, featured image, content,
+ * its categories and tags (linking to the filtered blog index) and
+ * related posts from the same categories.
+ *
+ * Accessibility:
+ * - Breadcrumb navigation
+ * - Post as article landmark, related posts as labelled section
+ */
+export function BlogPostView({
+  slug,
+  content,
+  preview = false,
+}: BlogPostViewProps) {
+  const t = useTranslations('Blog');
+  const tNavigation = useTranslations('Navigation');
+  // Drafts can only be fetched on the server
+  const { data: post } = useBlogPost(
+    slug,
+    preview ? { staleTime: Infinity } : undefined
+  );
+  const { data: categories } = useBlogCategories();
+  const { data: tags } = useBlogTags();
+  const { data: related } = useRelatedPosts(post ?? undefined);
+
+  if (!post) {
+    return null;
+  }
+
+  const title = toPlainText(post.title.rendered);
+  const image = getFeaturedImage(post);
+  const author = getPostAuthorName(post);
+  const postCategories = (categories ?? []).filter((category) =>
+    post.categories.includes(category.id)
+  );
+  const postTags = (tags ?? []).filter((tag) => post.tags.includes(tag.id));
+
+  return (
+    <div className="flex flex-col gap-8">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link href="/">{tNavigation('home')}</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link href="/blog">{tNavigation('blog')}</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>{title}</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <article className="mx-auto flex w-full max-w-3xl flex-col gap-6">
+        <header className="flex flex-col gap-3">
+          <h1 className="text-3xl font-bold md:text-4xl">{title}</h1>
+          <p className="text-muted-foreground text-sm">
+            {t('postedOn')} <PostDate date={post.date} />
+            {author ? (
+              <>
+                {' · '}
+                {t('postedBy')} {author}
+              </>
+            ) : null}
+          </p>
+        </header>
+
+        {image ? (
+          <div className="bg-muted relative aspect-video overflow-hidden rounded-xl">
+            <Image
+              src={image.source_url}
+              alt={image.alt_text}
+              fill
+              priority
+              sizes="(min-width: 768px) 48rem, 100vw"
+              className="object-cover"
+            />
+          </div>
+        ) : null}
+
+        {content}
+
+        <footer className="flex flex-col gap-4 border-t pt-6">
+          <TermLinks
+            label={t('categories')}
+            terms={postCategories}
+            param="category"
+          />
+          <TermLinks label={t('tags')} terms={postTags} param="tag" />
+          <Link
+            href="/blog"
+            className="text-primary inline-flex w-fit items-center gap-1 text-sm font-medium hover:underline"
+          >
+            <ArrowLeft className="size-4" aria-hidden="true" />
+            {t('backToBlog')}
+          </Link>
+        </footer>
+      </article>
+
+      {related && related.posts.length > 0 ? (
+        <section
+          className="flex flex-col gap-4"
+          aria-labelledby="related-posts-heading"
+        >
+          <h2 id="related-posts-heading" className="text-2xl font-bold">
+            {t('relatedPosts')}
+          </h2>
+          <ul
+            className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3"
+            role="list"
+          >
+            {related.posts.map((relatedPost) => (
+              <li key={relatedPost.id} className="flex">
+                <BlogPostCard post={relatedPost} />
+              </li>
+            ))}
+          </ul>
+        </section>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Categories or tags of a post, linking to the filtered blog index
+ */
+function TermLinks({
+  label,
+  terms,
+  param,
+}: {
+  label: string;
+  terms: WordPressTerm[];
+  param: 'category' | 'tag';
+}) {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="font-medium">{label}:</span>
+      <ul className="flex flex-wrap gap-2" role="list">
+        {terms.map((term) => (
+          <li key={term.id}>
+            <Badge variant="outline" asChild>
+              <Link href={{ pathname: '/blog', query: { [param]: term.id } }}>
+                {toPlainText(term.name)}
+              </Link>
+            </Badge>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { format, parseISO } from 'date-fns';
+import { useLocale } from 'next-intl';
+
+import type { Locale } from '@/i18n/config';
+import { dateFnsLocales } from '@/i18n/date-locales';
+
+interface PostDateProps {
+  /**
+   * ISO date as returned by WordPress (`post.date`)
+   */
+  date: string;
+  className?: string;
+}
+
+/**
+ * Post Date Component
+ *
+ * Publication date in the long date format of the active locale
+ * (e.g. "12 maart 2025"), with a machine-readable `dateTime`.
+ */
+export function PostDate({ date, className }: PostDateProps) {
+  const locale = useLocale() as Locale;
+
+  return (
+    <time dateTime={date} className={className}>
+      {format(parseISO(date), 'PPP', { locale: dateFnsLocales[locale] })}
+    </time>
+  );
+}
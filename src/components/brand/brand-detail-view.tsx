@@ -0,0 +1,144 @@
+'use client';
+
+import { ExternalLink } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Link } from '@/i18n/routing';
+import { useBrand } from '@/lib/hooks/use-brands';
+
+import { BrandLogo } from './brand-logo';
+import { BrandProducts } from './brand-products';
+
+interface BrandDetailViewProps {
+  /**
+   * Brand ID (the brand is expected to be prefetched on the server)
+   */
+  id: number;
+}
+
+/**
+ * Brand Detail View
+ *
+ * Client-side brand page: logo, name and description of the brand
+ * followed by its products. Reads the brand from the TanStack Query cache
+ * (hydrated by the server page).
+ *
+ * Accessibility:
+ * - Breadcrumb navigation
+ * - External website link marked as opening in a new tab
+ */
+export function BrandDetailView({ id }: BrandDetailViewProps) {
+  const t = useTranslations('Brand');
+  const tNavigation = useTranslations('Navigation');
+  const tCommon = useTranslations('Common');
+  const tAccessibility = useTranslations('Accessibility');
+  const { data: brand, isPending, isError } = useBrand(id);
+
+  if (isPending) {
+    return <BrandDetailSkeleton />;
+  }
+
+  if (isError) {
+    return (
+      <p className="text-destructive" role="alert">
+        {tCommon('error')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link href="/">{tNavigation('home')}</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link href="/brand">{tNavigation('brands')}</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>{brand.name}</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex flex-col gap-6 sm:flex-row sm:items-start">
+        <BrandLogo
+          name={brand.name}
+          logo={brand.logo}
+          sizes="10rem"
+          className="w-40 shrink-0"
+        />
+        <div className="flex flex-col gap-4">
+          <h1 className="text-3xl font-bold">{brand.name}</h1>
+          <p className="text-muted-foreground text-sm">
+            {t('productCount', { count: brand.productCount })}
+          </p>
+          {brand.description ? (
+            <div className="flex flex-col gap-2">
+              <h2 className="text-lg font-semibold">
+                {t('aboutBrand', { brand: brand.name })}
+              </h2>
+              <p className="max-w-prose leading-relaxed whitespace-pre-line">
+                {brand.description}
+              </p>
+            </div>
+          ) : null}
+          {brand.website ? (
+            <a
+              href={brand.website}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary inline-flex w-fit items-center gap-1 text-sm font-medium hover:underline"
+            >
+              {t('website')}
+              <ExternalLink className="size-4" aria-hidden="true" />
+              <span className="sr-only">
+                ({tAccessibility('opensInNewTab')})
+              </span>
+            </a>
+          ) : null}
+        </div>
+      </div>
+
+      <BrandProducts brandId={brand.id} brandName={brand.name} />
+    </div>
+  );
+}
+
+/**
+ * Loading state matching the brand page layout
+ */
+function BrandDetailSkeleton() {
+  const tCommon = useTranslations('Common');
+
+  return (
+    <div className="flex flex-col gap-8" aria-busy="true">
+      <span className="sr-only">{tCommon('loading')}</span>
+      <Skeleton className="h-5 w-64" />
+      <div className="flex flex-col gap-6 sm:flex-row">
+        <Skeleton className="size-40 rounded-lg" />
+        <div className="flex flex-1 flex-col gap-4">
+          <Skeleton className="h-9 w-1/2" />
+          <Skeleton className="h-4 w-32" />
+          <Skeleton className="h-20 w-full max-w-prose" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useId, useState } from 'react';
+
+import { useLocale, useTranslations } from 'next-intl';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Link } from '@/i18n/routing';
+import { useBrands, type Brand } from '@/lib/hooks/use-brands';
+
+import { BrandLogo } from './brand-logo';
+
+/**
+ * Jump navigation letters; brands not starting with A–Z are listed under #
+ */
+const LETTERS = [
+  ...Array.from({ length: 26 }, (_, index) => String.fromCharCode(65 + index)),
+  '#',
+];
+
+/**
+ * Directory letter of a brand, ignoring diacritics (Éclat → E)
+ */
+function getLetter(name: string) {
+  const letter = name
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .charAt(0)
+    .toUpperCase();
+
+  return /[A-Z]/.test(letter) ? letter : '#';
+}
+
+/**
+ * Brand Directory Component
+ *
+ * A–Z directory of all brands with a letter jump navigation and a search
+ * field that filters the list as you type. Brands are sorted by the
+ * collation of the active locale.
+ *
+ * Accessibility:
+ * - Letter navigation as nav landmark; letters without brands are not links
+ * - Sections labelled by their letter heading
+ * - Number of matching brands announced via aria-live
+ */
+export function BrandDirectory() {
+  const t = useTranslations('Brand');
+  const tCommon = useTranslations('Common');
+  const locale = useLocale();
+  const searchInputId = useId();
+  const [keyword, setKeyword] = useState('');
+  const { data: brands, isPending, isError, refetch } = useBrands();
+
+  if (isPending) {
+    return <BrandDirectorySkeleton />;
+  }
+
+  if (isError) {
+    return (
+      <div className="flex flex-col items-start gap-2" role="alert">
+        <p className="text-destructive">{tCommon('error')}</p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            void refetch();
+          }}
+        >
+          {tCommon('tryAgain')}
+        </Button>
+      </div>
+    );
+  }
+
+  const normalizedKeyword = keyword.trim().toLocaleLowerCase(locale);
+  const collator = new Intl.Collator(locale, { sensitivity: 'base' });
+  const groups = new Map<string, Brand[]>();
+
+  for (const brand of brands
+    .filter((brand) =>
+      brand.name.toLocaleLowerCase(locale).includes(normalizedKeyword)
+    )
+    .sort((a, b) => collator.compare(a.name, b.name))) {
+    const letter = getLetter(brand.name);
+    groups.set(letter, [...(groups.get(letter) ?? []), brand]);
+  }
+
+  const matchCount = [...groups.values()].reduce(
+    (total, group) => total + group.length,
+    0
+  );
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex max-w-md flex-col gap-2">
+        <Label htmlFor={searchInputId}>{tCommon('search')}</Label>
+        <Input
+          id={searchInputId}
+          type="search"
+          value={keyword}
+          onChange={(event) => {
+            setKeyword(event.target.value);
+          }}
+          placeholder={t('searchPlaceholder')}
+        />
+        <p className="text-muted-foreground text-sm" aria-live="polite">
+          {t('brandCount', { count: matchCount })}
+        </p>
+      </div>
+
+      <nav aria-label={t('letterNavigation')}>
+        <ul className="flex flex-wrap gap-1" role="list">
+          {LETTERS.map((letter) => (
+            <li key={letter}>
+              {groups.has(letter) ? (
+                <a
+                  href={`#brands-${letter}`}
+                  className="hover:bg-accent flex size-8 items-center justify-center rounded-md text-sm font-medium"
+                >
+                  {letter}
+                </a>
+              ) : (
+                <span
+                  className="text-muted-foreground/50 flex size-8 items-center justify-center text-sm"
+                  aria-disabled="true"
+                >
+                  {letter}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </nav>
+
+      {matchCount === 0 ? (
+        <p className="text-muted-foreground">{t('noBrandsFound')}</p>
+      ) : (
+        LETTERS.filter((letter) => groups.has(letter)).map((letter) => (
+          <section
+            key={letter}
+            id={`brands-${letter}`}
+            aria-labelledby={`brands-${letter}-heading`}
+            className="scroll-mt-20"
+          >
+            <h2
+              id={`brands-${letter}-heading`}
+              className="mb-4 border-b pb-2 text-2xl font-bold"
+            >
+              {letter}
+            </h2>
+            <ul
+              className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6"
+              role="list"
+            >
+              {(groups.get(letter) ?? []).map((brand) => (
+                <li key={brand.id} className="flex">
+                  <BrandCard brand={brand} />
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
+
+/**
+ * Brand tile linking to the brand page
+ */
+function BrandCard({ brand }: { brand: Brand }) {
+  const t = useTranslations('Brand');
+
+  return (
+    <Card className="has-[a:focus-visible]:ring-ring relative w-full gap-2 p-3 transition-shadow hover:shadow-md has-[a:focus-visible]:ring-2">
+      <BrandLogo
+        name={brand.name}
+        logo={brand.logo}
+        sizes="(min-width: 1280px) 16vw, (min-width: 640px) 33vw, 50vw"
+      />
+      <Link
+        href={{ pathname: '/brand/[id]', params: { id: brand.id } }}
+        className="line-clamp-2 text-sm font-semibold after:absolute after:inset-0 focus-visible:outline-none"
+      >
+        {brand.name}
+      </Link>
+      <p className="text-muted-foreground text-xs">
+        {t('productCount', { count: brand.productCount })}
+      </p>
+    </Card>
+  );
+}
+
+/**
+ * Loading state matching the directory layout
+ */
+function BrandDirectorySkeleton() {
+  const tCommon = useTranslations('Common');
+
+  return (
+    <div className="flex flex-col gap-6" aria-busy="true">
+      <span className="sr-only">{tCommon('loading')}</span>
+      <Skeleton className="h-9 w-full max-w-md" />
+      <Skeleton className="h-8 w-full" />
+      <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6">
+        {Array.from({ length: 12 }, (_, index) => (
+          <Skeleton key={index} className="aspect-[4/5] rounded-xl" />
+        ))}
+      </div>
+    </div>
+  );
+}
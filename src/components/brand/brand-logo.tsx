@@ -0,0 +1,47 @@
+import Image from 'next/image';
+
+import { cn } from '@/lib/utils';
+
+interface BrandLogoProps {
+  name: string;
+  logo: string | null;
+  /**
+   * Image sizes hint for next/image
+   */
+  sizes: string;
+  className?: string;
+}
+
+/**
+ * Brand Logo Component
+ *
+ * Square brand logo; brands without a logo show their initial instead.
+ * The logo is decorative, the brand name is always rendered next to it.
+ */
+export function BrandLogo({ name, logo, sizes, className }: BrandLogoProps) {
+  return (
+    <div
+      className={cn(
+        'bg-muted relative flex aspect-square items-center justify-center overflow-hidden rounded-lg border',
+        className
+      )}
+    >
+      {logo ? (
+        <Image
+          src={logo}
+          alt=""
+          fill
+          sizes={sizes}
+          className="object-contain p-2"
+        />
+      ) : (
+        <span
+          className="text-muted-foreground text-2xl font-semibold"
+          aria-hidden="true"
+        >
+          {name.charAt(0).toUpperCase()}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useId } from 'react';
+
+import { useTranslations } from 'next-intl';
+
+import { ProductFilters } from '@/components/product/product-filters';
+import { ProductGrid } from '@/components/product/product-grid';
+import { ProductPagination } from '@/components/product/product-pagination';
+import { ProductSortSelect } from '@/components/product/product-sort-select';
+import { useBrandProducts } from '@/lib/hooks/use-brands';
+import { useProductSearchState } from '@/lib/hooks/use-product-search';
+import { toProductSearchParams } from '@/lib/search/product-search-params';
+
+interface BrandProductsProps {
+  brandId: number;
+  brandName: string;
+}
+
+/**
+ * Brand Products Component
+ *
+ * Paginated, filterable product grid of a single brand, built from the
+ * catalog search components. Filters, sorting and paging live in the URL
+ * like on the product search page; the brand filter is fixed.
+ *
+ * Accessibility:
+ * - Section labelled by its heading
+ * - Results count announced via aria-live
+ */
+export function BrandProducts({ brandId, brandName }: BrandProductsProps) {
+  const t = useTranslations('Product');
+  const tBrand = useTranslations('Brand');
+  const headingId = useId();
+  const sortLabelId = useId();
+  const [search, setSearch] = useProductSearchState();
+  const { data, isPending, isError, isFetching, refetch } = useBrandProducts(
+    brandId,
+    toProductSearchParams(search)
+  );
+
+  const handlePageChange = (page: number) => {
+    void setSearch({ page });
+    document
+      .getElementById(headingId)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const from = data ? data.page * data.pageSize + 1 : 0;
+  const to = data ? from + data.products.length - 1 : 0;
+
+  return (
+    <section className="flex flex-col gap-6" aria-labelledby={headingId}>
+      <h2 id={headingId} className="scroll-mt-20 text-2xl font-bold">
+        {tBrand('brandProducts', { brand: brandName })}
+      </h2>
+
+      <div className="grid grid-cols-1 gap-8 lg:grid-cols-[16rem_1fr]">
+        <ProductFilters brandId={brandId} />
+
+        <div className="flex flex-col gap-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div aria-live="polite" className="text-sm">
+              {data ? (
+                <>
+                  <p className="font-medium">
+                    {t('resultsCount', { count: data.total })}
+                  </p>
+                  {data.total > 0 ? (
+                    <p className="text-muted-foreground">
+                      {t('showingResults', { from, to, total: data.total })}
+                    </p>
+                  ) : null}
+                </>
+              ) : null}
+            </div>
+            <ProductSortSelect
+              labelId={sortLabelId}
+              value={search.sort}
+              onValueChange={(sort) => {
+                void setSearch({ sort, page: null });
+              }}
+            />
+          </div>
+
+          <ProductGrid
+            products={data?.products}
+            isPending={isPending}
+            isError={isError}
+            isFetching={isFetching}
+            onRetry={() => {
+              void refetch();
+            }}
+          />
+
+          {data ? (
+            <ProductPagination
+              page={search.page}
+              totalPages={data.totalPages}
+              onPageChange={handlePageChange}
+            />
+          ) : null}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import type { Product } from '@/lib/api/foodbook';
+import {
+  MAX_COMPARE_PRODUCTS,
+  useCompareTray,
+} from '@/lib/stores/compare-store';
+import { cn } from '@/lib/utils';
+
+interface CompareToggleProps {
+  product: Pick<Product, 'id' | 'name' | 'image'>;
+  className?: string;
+}
+
+/**
+ * Compare Toggle
+ *
+ * Checkbox that adds a product to (or removes it from) the compare tray.
+ * When the tray is full the product is not added and a toast explains
+ * why.
+ */
+export function CompareToggle({ product, className }: CompareToggleProps) {
+  const t = useTranslations('Compare');
+  const { items, toggle } = useCompareTray();
+
+  return (
+    <Label className={cn('text-xs font-normal', className)}>
+      <Checkbox
+        checked={items.some(({ id }) => id === product.id)}
+        onCheckedChange={() => {
+          const { id, name, image } = product;
+
+          if (!toggle({ id, name, image })) {
+            toast.error(t('full', { max: MAX_COMPARE_PRODUCTS }));
+          }
+        }}
+        aria-label={t('toggleProduct', { name: product.name })}
+      />
+      <span aria-hidden="true">{t('toggle')}</span>
+    </Label>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import Image from 'next/image';
+
+import { Columns3, X } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+
+import { Button } from '@/components/ui/button';
+import { Link } from '@/i18n/routing';
+import { useCompareTray } from '@/lib/stores/compare-store';
+
+/**
+ * Compare Tray
+ *
+ * Bar fixed to the bottom of the viewport with the products collected
+ * for comparison and a link to the compare page. Hidden while the tray
+ * is empty.
+ *
+ * Accessibility:
+ * - Landmark region with an accessible name
+ * - Remove buttons labelled with the product name
+ */
+export function CompareTray() {
+  const t = useTranslations('Compare');
+  const { items, remove, clear } = useCompareTray();
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <aside
+      aria-label={t('tray')}
+      className="bg-background/95 supports-[backdrop-filter]:bg-background/80 fixed inset-x-0 bottom-0 z-40 border-t backdrop-blur-sm"
+    >
+      <div className="container mx-auto flex flex-wrap items-center justify-between gap-4 px-4 py-3">
+        <ul className="flex flex-wrap gap-2" role="list">
+          {items.map((item) => (
+            <li
+              key={item.id}
+              className="flex items-center gap-2 rounded-md border py-1 pr-1 pl-2"
+            >
+              <Image
+                src={item.image}
+                alt=""
+                width={32}
+                height={32}
+                className="size-8 object-contain"
+              />
+              <span className="max-w-32 truncate text-sm">{item.name}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7"
+                aria-label={t('remove', { name: item.name })}
+                onClick={() => {
+                  remove(item.id);
+                }}
+              >
+                <X aria-hidden="true" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={clear}>
+            {t('clear')}
+          </Button>
+          <Button asChild size="sm">
+            <Link
+              href={{
+                pathname: '/compare',
+                query: { ids: items.map(({ id }) => id).join(',') },
+              }}
+            >
+              <Columns3 aria-hidden="true" />
+              {t('compareCount', { count: items.length })}
+            </Link>
+          </Button>
+        </div>
+      </div>
+    </aside>
+  );
+}
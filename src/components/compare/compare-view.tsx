@@ -0,0 +1,401 @@
+'use client';
+
+import { useState } from 'react';
+
+import Image from 'next/image';
+
+import { Link2, X } from 'lucide-react';
+import { useFormatter, useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Link } from '@/i18n/routing';
+import { ALLERGEN_CODES } from '@/lib/allergens';
+import type { ProductSheet, ProductSheetProperty } from '@/lib/api/foodbook';
+import { useProductsByIds } from '@/lib/hooks/use-products';
+import { getNutrient, NUTRIENT_CODES } from '@/lib/nutrients';
+import {
+  MAX_COMPARE_PRODUCTS,
+  useCompareTray,
+} from '@/lib/stores/compare-store';
+import { cn } from '@/lib/utils';
+
+interface CompareViewProps {
+  /**
+   * Products from the URL (shared links); without them the compare tray
+   * is shown
+   */
+  ids?: number[];
+}
+
+/**
+ * Compared attribute: a label and a display value per product
+ */
+interface CompareRow {
+  key: string;
+  label: string;
+  values: string[];
+}
+
+/**
+ * Group of compared attributes
+ */
+interface CompareSection {
+  key: string;
+  title: string;
+  rows: CompareRow[];
+}
+
+/**
+ * Whether the products differ in a row
+ */
+function isDifferent(row: CompareRow): boolean {
+  return new Set(row.values).size > 1;
+}
+
+/**
+ * Rows for label/value properties (specifications, packaging): one row
+ * per label found on any product, in order of appearance
+ */
+function toPropertyRows(
+  key: string,
+  properties: ProductSheetProperty[][],
+  missing: string
+): CompareRow[] {
+  const labels = [
+    ...new Set(properties.flatMap((list) => list.map(({ label }) => label))),
+  ];
+
+  return labels.map((label) => ({
+    key: `${key}-${label}`,
+    label,
+    values: properties.map(
+      (list) =>
+        list.find((property) => property.label === label)?.value ?? missing
+    ),
+  }));
+}
+
+/**
+ * Compare View
+ *
+ * Lays out up to four products side by side: general data, specifications,
+ * packaging, allergens and nutrients, with a column per
+ * product. Rows where the products differ are highlighted and can be
+ * shown exclusively. The comparison is shareable via a link with the
+ * product IDs.
+ *
+ * Accessibility:
+ * - Table with product column headers and attribute row headers
+ * - Section headings as row group headers
+ * - Differences marked with a visually hidden note, not only by color
+ */
+export function CompareView({ ids }: CompareViewProps) {
+  const t = useTranslations('Compare');
+  const tProduct = useTranslations('Product');
+  const tAllergens = useTranslations('Allergens');
+  const tNutrients = useTranslations('Nutrients');
+  const tCommon = useTranslations('Common');
+  const format = useFormatter();
+  const tray = useCompareTray();
+  const productIds = (ids ?? tray.items.map(({ id }) => id)).slice(
+    0,
+    MAX_COMPARE_PRODUCTS
+  );
+  const { products, isPending, isError, refetch } =
+    useProductsByIds(productIds);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  const handleShare = async () => {
+    const url = new URL(window.location.href);
+    url.search = new URLSearchParams({ ids: productIds.join(',') }).toString();
+
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      toast.success(t('linkCopied'));
+    } catch {
+      toast.error(tCommon('error'));
+    }
+  };
+
+  if (productIds.length === 0) {
+    return (
+      <p className="text-muted-foreground">
+        {t('empty', { max: MAX_COMPARE_PRODUCTS })}
+      </p>
+    );
+  }
+
+  if (isPending) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  const missing = t('notDeclared');
+  const sections: CompareSection[] = [
+    {
+      key: 'general',
+      title: t('general'),
+      rows: [
+        {
+          key: 'price',
+          label: t('price'),
+          values: products.map((product) =>
+            format.number(product.price, { style: 'currency', currency: 'EUR' })
+          ),
+        },
+        {
+          key: 'availability',
+          label: tProduct('availability'),
+          values: products.map((product) =>
+            product.inStock ? tProduct('inStock') : tProduct('outOfStock')
+          ),
+        },
+        {
+          key: 'brand',
+          label: tProduct('brand'),
+          values: products.map((product) => product.brand),
+        },
+        {
+          key: 'articleNumber',
+          label: tProduct('articleNumber'),
+          values: products.map((product) => product.articleNumber),
+        },
+      ],
+    },
+    {
+      key: 'specifications',
+      title: tProduct('specifications'),
+      rows: toPropertyRows(
+        'specifications',
+        products.map((product) => product.specifications),
+        missing
+      ),
+    },
+    {
+      key: 'packaging',
+      title: tProduct('packaging'),
+      rows: toPropertyRows(
+        'packaging',
+        products.map((product) => product.packaging),
+        missing
+      ),
+    },
+    {
+      key: 'allergens',
+      title: tProduct('allergens'),
+      rows: ALLERGEN_CODES.map((code) => ({
+        key: `allergens-${code}`,
+        label: tAllergens(`names.${code}`),
+        values: products.map((product) => {
+          const allergen = product.allergens.find(
+            (declared) => declared.code === code
+          );
+
+          if (!allergen) {
+            return missing;
+          }
+
+          const level = tAllergens(`levels.${allergen.level}`);
+          return allergen.subtypes.length > 0
+            ? `${level}: ${allergen.subtypes
+                .map((subtype) => tAllergens(`subtypes.${subtype}`))
+                .join(', ')}`
+            : level;
+        }),
+      })),
+    },
+    {
+      key: 'nutrients',
+      title: tProduct('nutritionalInfo'),
+      rows: [
+        {
+          key: 'nutrients-basis',
+          label: t('basis'),
+          values: products.map((product) =>
+            product.nutritionalInfo.basis === '100ml'
+              ? tNutrients('per100ml')
+              : tNutrients('per100g')
+          ),
+        },
+        ...NUTRIENT_CODES.filter((code) =>
+          products.some((product) =>
+            product.nutritionalInfo.nutrients.some(
+              (nutrient) => nutrient.code === code
+            )
+          )
+        ).map((code) => ({
+          key: `nutrients-${code}`,
+          label: tNutrients(`names.${code}`),
+          values: products.map((product) =>
+            formatNutrient(product, code, missing, (value) =>
+              format.number(value, { maximumFractionDigits: 1 })
+            )
+          ),
+        })),
+      ],
+    },
+  ];
+
+  return (
+    <div className="flex flex-col gap-4">
+      {isError ? (
+        <div className="flex flex-col items-start gap-2" role="alert">
+          <p className="text-destructive">{tCommon('error')}</p>
+          <Button variant="outline" size="sm" onClick={refetch}>
+            {tCommon('tryAgain')}
+          </Button>
+        </div>
+      ) : null}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Label className="font-normal">
+          <Checkbox
+            checked={onlyDifferences}
+            onCheckedChange={(checked) => {
+              setOnlyDifferences(checked === true);
+            }}
+          />
+          {t('onlyDifferences')}
+        </Label>
+        <Button variant="outline" size="sm" onClick={() => void handleShare()}>
+          <Link2 aria-hidden="true" />
+          {t('share')}
+        </Button>
+      </div>
+
+      <Table className="table-fixed">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-48">
+              <span className="sr-only">{t('product')}</span>
+            </TableHead>
+            {products.map((product) => (
+              <TableHead
+                key={product.id}
+                scope="col"
+                className="h-auto w-56 py-3 align-top whitespace-normal"
+              >
+                <div className="flex flex-col gap-2">
+                  <div className="bg-muted relative aspect-square w-24">
+                    <Image
+                      src={product.image}
+                      alt=""
+                      fill
+                      sizes="96px"
+                      className="object-contain"
+                    />
+                  </div>
+                  <div className="flex items-start justify-between gap-1">
+                    <Link
+                      href={{
+                        pathname: '/product/[id]',
+                        params: { id: product.id },
+                      }}
+                      className="font-semibold hover:underline"
+                    >
+                      {product.name}
+                    </Link>
+                    {ids === undefined ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-7 shrink-0"
+                        aria-label={t('remove', { name: product.name })}
+                        onClick={() => {
+                          tray.remove(product.id);
+                        }}
+                      >
+                        <X aria-hidden="true" />
+                      </Button>
+                    ) : null}
+                  </div>
+                </div>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        {sections.map((section) => {
+          const rows = onlyDifferences
+            ? section.rows.filter(isDifferent)
+            : section.rows;
+
+          return rows.length > 0 ? (
+            <TableBody key={section.key}>
+              <TableRow className="hover:bg-transparent">
+                <TableHead
+                  scope="rowgroup"
+                  colSpan={products.length + 1}
+                  className="text-foreground pt-6 text-base font-semibold"
+                >
+                  {section.title}
+                </TableHead>
+              </TableRow>
+              {rows.map((row) => {
+                const different = products.length > 1 && isDifferent(row);
+
+                return (
+                  <TableRow
+                    key={row.key}
+                    className={cn(
+                      different && 'bg-amber-50 dark:bg-amber-950/30'
+                    )}
+                  >
+                    <TableHead
+                      scope="row"
+                      className="font-normal whitespace-normal"
+                    >
+                      {row.label}
+                      {different ? (
+                        <span className="sr-only"> ({t('differs')})</span>
+                      ) : null}
+                    </TableHead>
+                    {row.values.map((value, index) => (
+                      <TableCell
+                        key={products[index]?.id ?? index}
+                        className={cn(
+                          'whitespace-normal',
+                          value === missing && 'text-muted-foreground'
+                        )}
+                      >
+                        {value}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          ) : null;
+        })}
+      </Table>
+    </div>
+  );
+}
+
+/**
+ * Display value of a nutrient of a product, per its basis (100 g/ml)
+ */
+function formatNutrient(
+  product: ProductSheet,
+  code: (typeof NUTRIENT_CODES)[number],
+  missing: string,
+  formatNumber: (value: number) => string
+): string {
+  const nutrient = product.nutritionalInfo.nutrients.find(
+    (declared) => declared.code === code
+  );
+
+  return nutrient
+    ? `${formatNumber(nutrient.value)} ${getNutrient(code).unit}`
+    : missing;
+}
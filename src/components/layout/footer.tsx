@@ -43,12 +43,18 @@ export async function Footer() {
     { title: t('legal'), slug: 'footer-legal' },
   ];
 
-  // Fetch WordPress menus in parallel
+  // Fetch WordPress menus in parallel; a failing menu renders as empty
   const menus = await Promise.all(
-    menuGroups.map(async (group) => ({
-      ...group,
-      items: (await getWordPressMenu(group.slug))?.items ?? [],
-    }))
+    menuGroups.map(async (group) => {
+      const menu = await getWordPressMenu(group.slug).catch(
+        (error: unknown) => {
+          console.error(`Failed to fetch footer menu "${group.slug}":`, error);
+          return null;
+        }
+      );
+
+      return { ...group, items: menu?.items ?? [] };
+    })
   );
 
   return (
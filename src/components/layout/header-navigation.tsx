@@ -2,95 +2,178 @@
 
 import { usePathname } from 'next/navigation';
 
+import { ChevronDown } from 'lucide-react';
 import { useTranslations } from 'next-intl';
 
-import { Link } from '@/i18n/routing';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
 
-type NavigationLinkHref = '/' | '/product' | '/brand' | '/blog' | '/contact';
+import {
+  isActiveItem,
+  isCurrentItem,
+  toLocalizedPath,
+  type NavigationItem,
+} from './navigation-items';
+import { NavigationLink } from './navigation-link';
 
-interface NavigationLink {
-  href: NavigationLinkHref;
-  label: string;
-  matchPattern?: RegExp;
+interface HeaderNavigationProps {
+  items: NavigationItem[];
 }
 
+const itemClassName = cn(
+  'rounded-md px-3 py-2 text-sm font-medium transition-colors',
+  'hover:bg-accent hover:text-accent-foreground',
+  'focus-visible:ring-ring focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:outline-none'
+);
+
 /**
  * Header Navigation Component
  *
  * Desktop navigation menu with hover states and current page indicator.
+ * Items with children open a dropdown; when the children have children
+ * of their own, the dropdown becomes a mega-menu with a column per child.
  *
  * Accessibility:
- * - Keyboard navigable links
+ * - Keyboard navigable links and menus (Radix Dropdown Menu)
  * - ARIA current for active page
  * - Visible focus indicators
  * - Semantic nav element
  */
-export function HeaderNavigation() {
-  const t = useTranslations('Navigation');
-  const pathname = usePathname();
-
-  const navigationLinks: NavigationLink[] = [
-    {
-      href: '/',
-      label: t('home'),
-      matchPattern: /^\/$/,
-    },
-    {
-      href: '/product',
-      label: t('products'),
-      matchPattern: /^\/product/,
-    },
-    {
-      href: '/brand',
-      label: t('brands'),
-      matchPattern: /^\/brand/,
-    },
-    {
-      href: '/blog',
-      label: t('blog'),
-      matchPattern: /^\/blog/,
-    },
-    {
-      href: '/contact',
-      label: t('contact'),
-      matchPattern: /^\/contact/,
-    },
-  ] as const;
-
-  const isActive = (link: NavigationLink): boolean => {
-    if (link.matchPattern) {
-      return link.matchPattern.test(pathname);
-    }
-    return pathname === link.href;
-  };
+export function HeaderNavigation({ items }: HeaderNavigationProps) {
+  const pathname = toLocalizedPath(usePathname());
 
   return (
     <nav
       className="hidden md:flex md:items-center md:gap-1"
       aria-label="Main navigation"
     >
-      {navigationLinks.map((link) => {
-        const active = isActive(link);
+      {items.map((item) => {
+        const active = isActiveItem(item, pathname);
+        const className = cn(
+          itemClassName,
+          active ? 'bg-accent text-accent-foreground' : 'text-muted-foreground'
+        );
 
-        return (
-          <Link
-            key={link.href}
-            href={link.href}
-            className={cn(
-              'rounded-md px-3 py-2 text-sm font-medium transition-colors',
-              'hover:bg-accent hover:text-accent-foreground',
-              'focus-visible:ring-ring focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:outline-none',
-              active
-                ? 'bg-accent text-accent-foreground'
-                : 'text-muted-foreground'
-            )}
-            aria-current={active ? 'page' : undefined}
+        if (item.children.length > 0) {
+          return (
+            <NavigationDropdown
+              key={item.id}
+              item={item}
+              pathname={pathname}
+              className={className}
+            />
+          );
+        }
+
+        return item.href !== null ? (
+          <NavigationLink
+            key={item.id}
+            item={{ ...item, href: item.href }}
+            className={className}
+            aria-current={isCurrentItem(item, pathname) ? 'page' : undefined}
           >
-            {link.label}
-          </Link>
-        );
+            {item.label}
+          </NavigationLink>
+        ) : null;
       })}
     </nav>
   );
 }
+
+/**
+ * Dropdown (or mega-menu) for a navigation item with children
+ */
+function NavigationDropdown({
+  item,
+  pathname,
+  className,
+}: {
+  item: NavigationItem;
+  pathname: string;
+  className: string;
+}) {
+  const tCommon = useTranslations('Common');
+  const isMegaMenu = item.children.some((child) => child.children.length > 0);
+
+  const renderLink = (link: NavigationItem, linkClassName?: string) =>
+    link.href !== null ? (
+      <DropdownMenuItem
+        key={link.id}
+        asChild
+        className={cn(
+          isActiveItem(link, pathname) && 'bg-accent/50 font-medium',
+          linkClassName
+        )}
+      >
+        <NavigationLink
+          item={{ ...link, href: link.href }}
+          aria-current={isCurrentItem(link, pathname) ? 'page' : undefined}
+        >
+          {link.label}
+        </NavigationLink>
+      </DropdownMenuItem>
+    ) : null;
+
+  return (
+    <DropdownMenu modal={false}>
+      <DropdownMenuTrigger className={cn(className, 'flex items-center gap-1')}>
+        {item.label}
+        <ChevronDown className="size-4" aria-hidden="true" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="start"
+        className={
+          isMegaMenu ? 'grid w-[min(48rem,90vw)] grid-cols-3 gap-4 p-4' : 'w-56'
+        }
+      >
+        {isMegaMenu ? (
+          <>
+            {item.children.map((column) => (
+              <DropdownMenuGroup key={column.id}>
+                {column.href !== null ? (
+                  renderLink({ ...column, children: [] }, 'font-semibold')
+                ) : (
+                  <DropdownMenuLabel>{column.label}</DropdownMenuLabel>
+                )}
+                {column.children.map((link) =>
+                  renderLink(link, 'text-muted-foreground')
+                )}
+              </DropdownMenuGroup>
+            ))}
+            {item.href !== null ? (
+              <div className="col-span-full border-t pt-2">
+                {renderLink({
+                  ...item,
+                  label: tCommon('viewAll'),
+                  children: [],
+                })}
+              </div>
+            ) : null}
+          </>
+        ) : (
+          <>
+            {item.children.map((link) => renderLink(link))}
+            {item.href !== null ? (
+              <>
+                <DropdownMenuSeparator />
+                {renderLink({
+                  ...item,
+                  label: tCommon('viewAll'),
+                  children: [],
+                })}
+              </>
+            ) : null}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,12 +1,21 @@
-import { getTranslations } from 'next-intl/server';
+import { getLocale, getTranslations } from 'next-intl/server';
 
+import { SessionRenewal } from '@/components/auth/session-renewal';
+import type { Locale } from '@/i18n/config';
 import { Link } from '@/i18n/routing';
-import { getSession } from '@/lib/auth/session';
+import { getWordPressMenu } from '@/lib/api/wordpress';
+import { getRefreshToken, getSession } from '@/lib/auth/session';
 import { cn } from '@/lib/utils';
 
 import { HeaderNavigation } from './header-navigation';
 import { LanguageSwitcher } from './language-switcher';
 import { MobileMenu } from './mobile-menu';
+import {
+  getFallbackNavigation,
+  toNavigationItems,
+  type NavigationItem,
+} from './navigation-items';
+import { SearchCommand } from './search-command';
 import { UserMenu } from './user-menu';
 
 interface HeaderProps {
@@ -17,6 +26,32 @@ interface HeaderProps {
   variant?: 'default' | 'catalog';
 }
 
+/**
+ * Slug of the WordPress menu with the main navigation
+ */
+const MAIN_MENU_SLUG = 'main';
+
+/**
+ * Load the main navigation from WordPress
+ *
+ * Falls back to the built-in links when the menu is missing, empty or
+ * fails to load.
+ */
+async function getNavigationItems(): Promise<NavigationItem[]> {
+  const locale = (await getLocale()) as Locale;
+  const t = await getTranslations('Navigation');
+  const menu = await getWordPressMenu(MAIN_MENU_SLUG).catch(
+    (error: unknown) => {
+      console.error(`Failed to fetch menu "${MAIN_MENU_SLUG}":`, error);
+      return null;
+    }
+  );
+
+  return menu !== null && menu.items.length > 0
+    ? toNavigationItems(menu.items)
+    : getFallbackNavigation(locale, (key) => t(key));
+}
+
 /**
  * Header Component
  *
@@ -25,8 +60,9 @@ interface HeaderProps {
  *
  * Features:
  * - Sticky header with backdrop blur
- * - Responsive navigation (desktop/mobile)
- * - User authentication state
+ * - Responsive navigation (desktop/mobile) from the WordPress main menu
+ * - Global search (Ctrl/Cmd+K)
+ * - User authentication state with silent session renewal
  * - Language switching
  * - WCAG 2.1 AA compliant
  *
@@ -39,7 +75,17 @@ interface HeaderProps {
  */
 export async function Header({ variant = 'default' }: HeaderProps) {
   const t = await getTranslations('Navigation');
-  const session = await getSession();
+  const [session, refreshToken, navigationItems] = await Promise.all([
+    getSession(),
+    getRefreshToken(),
+    getNavigationItems(),
+  ]);
+  // An expired session (expiry 0) is renewed right away on the client
+  const sessionExpiresAt = session
+    ? session.expiresAt.getTime()
+    : refreshToken !== null
+      ? 0
+      : null;
 
   return (
     <>
@@ -58,7 +104,7 @@ export async function Header({ variant = 'default' }: HeaderProps) {
         <div className="container mx-auto flex h-16 items-center justify-between px-4">
           {/* Left: Mobile menu + Logo */}
           <div className="flex items-center gap-4">
-            <MobileMenu />
+            <MobileMenu items={navigationItems} />
 
             {/* Logo */}
             <Link
@@ -78,15 +124,17 @@ export async function Header({ variant = 'default' }: HeaderProps) {
           </div>
 
           {/* Center: Desktop Navigation */}
-          <HeaderNavigation />
+          <HeaderNavigation items={navigationItems} />
 
-          {/* Right: User menu + Language switcher */}
+          {/* Right: Search + User menu + Language switcher */}
           <div className="flex items-center gap-2">
-            <UserMenu session={session} />
+            <SearchCommand />
+            <UserMenu />
+            <SessionRenewal expiresAt={sessionExpiresAt} />
             <LanguageSwitcher />
           </div>
         </div>
       </header>
     </>
   );
-}
\ No newline at end of file
+}
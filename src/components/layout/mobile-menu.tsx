@@ -7,6 +7,12 @@ import { usePathname } from 'next/navigation';
 import { Menu, X } from 'lucide-react';
 import { useTranslations } from 'next-intl';
 
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
 import { Button } from '@/components/ui/button';
 import {
   Sheet,
@@ -15,22 +21,33 @@ import {
   SheetTitle,
   SheetTrigger,
 } from '@/components/ui/sheet';
-import { Link } from '@/i18n/routing';
 import { cn } from '@/lib/utils';
 
-type NavigationLinkHref = '/' | '/product' | '/brand' | '/blog' | '/contact';
+import {
+  isActiveItem,
+  isCurrentItem,
+  toLocalizedPath,
+  type NavigationItem,
+} from './navigation-items';
+import { NavigationLink } from './navigation-link';
 
-interface NavigationLink {
-  href: NavigationLinkHref;
-  label: string;
-  matchPattern?: RegExp;
+interface MobileMenuProps {
+  items: NavigationItem[];
 }
 
+const linkClassName = cn(
+  'rounded-md px-4 py-3 text-base font-medium transition-colors',
+  'hover:bg-accent hover:text-accent-foreground',
+  'focus-visible:ring-ring focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:outline-none'
+);
+
 /**
  * Mobile Menu Component
  *
  * Full-screen slide-out navigation menu for mobile devices.
  * Uses shadcn Sheet component with focus trap and accessibility features.
+ * Items with children expand as accordion; the section of the current
+ * page starts expanded.
  *
  * Accessibility:
  * - Focus trap when open
@@ -39,51 +56,60 @@ interface NavigationLink {
  * - Auto-closes on navigation
  * - Visible focus indicators
  */
-export function MobileMenu() {
+export function MobileMenu({ items }: MobileMenuProps) {
   const [open, setOpen] = useState(false);
   const t = useTranslations('Navigation');
-  const pathname = usePathname();
-
-  const navigationLinks: NavigationLink[] = [
-    {
-      href: '/',
-      label: t('home'),
-      matchPattern: /^\/$/,
-    },
-    {
-      href: '/product',
-      label: t('products'),
-      matchPattern: /^\/product/,
-    },
-    {
-      href: '/brand',
-      label: t('brands'),
-      matchPattern: /^\/brand/,
-    },
-    {
-      href: '/blog',
-      label: t('blog'),
-      matchPattern: /^\/blog/,
-    },
-    {
-      href: '/contact',
-      label: t('contact'),
-      matchPattern: /^\/contact/,
-    },
-  ] as const;
-
-  const isActive = (link: NavigationLink): boolean => {
-    if (link.matchPattern) {
-      return link.matchPattern.test(pathname);
-    }
-    return pathname === link.href;
-  };
+  const tCommon = useTranslations('Common');
+  const pathname = toLocalizedPath(usePathname());
 
   const handleLinkClick = () => {
     // Close menu when navigating
     setOpen(false);
   };
 
+  const renderLink = (item: NavigationItem, depth = 0) => {
+    if (item.href === null) {
+      return null;
+    }
+
+    const active = isActiveItem(item, pathname);
+
+    return (
+      <NavigationLink
+        key={item.id}
+        item={{ ...item, href: item.href }}
+        onClick={handleLinkClick}
+        className={cn(
+          linkClassName,
+          depth > 0 && 'py-2 text-sm',
+          depth > 1 && 'pl-8',
+          active ? 'bg-accent text-accent-foreground' : 'text-foreground'
+        )}
+        aria-current={isCurrentItem(item, pathname) ? 'page' : undefined}
+      >
+        {item.label}
+      </NavigationLink>
+    );
+  };
+
+  // Flattened children of a section, nested ones indented
+  const renderChildren = (
+    item: NavigationItem,
+    depth: number
+  ): React.ReactNode =>
+    item.children.map((child) => (
+      <div key={child.id} className="flex flex-col">
+        {child.href !== null ? (
+          renderLink({ ...child, children: [] }, depth)
+        ) : (
+          <span className="text-muted-foreground px-4 pt-3 pb-1 text-xs font-medium uppercase">
+            {child.label}
+          </span>
+        )}
+        {renderChildren(child, depth + 1)}
+      </div>
+    ));
+
   return (
     <Sheet open={open} onOpenChange={setOpen}>
       <SheetTrigger asChild>
@@ -100,7 +126,7 @@ export function MobileMenu() {
           )}
         </Button>
       </SheetTrigger>
-      <SheetContent side="left" className="w-80">
+      <SheetContent side="left" className="w-80 overflow-y-auto">
         <SheetHeader>
           <SheetTitle>{t('menu')}</SheetTitle>
         </SheetHeader>
@@ -108,28 +134,44 @@ export function MobileMenu() {
           className="mt-8 flex flex-col gap-2"
           aria-label="Mobile navigation"
         >
-          {navigationLinks.map((link) => {
-            const active = isActive(link);
-
-            return (
-              <Link
-                key={link.href}
-                href={link.href}
-                onClick={handleLinkClick}
-                className={cn(
-                  'rounded-md px-4 py-3 text-base font-medium transition-colors',
-                  'hover:bg-accent hover:text-accent-foreground',
-                  'focus-visible:ring-ring focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:outline-none',
-                  active
-                    ? 'bg-accent text-accent-foreground'
-                    : 'text-foreground'
-                )}
-                aria-current={active ? 'page' : undefined}
-              >
-                {link.label}
-              </Link>
-            );
-          })}
+          <Accordion
+            type="multiple"
+            defaultValue={items
+              .filter((item) => isActiveItem(item, pathname))
+              .map((item) => item.id)}
+            className="flex flex-col gap-2"
+          >
+            {items.map((item) =>
+              item.children.length > 0 ? (
+                <AccordionItem
+                  key={item.id}
+                  value={item.id}
+                  className="border-b-0"
+                >
+                  <AccordionTrigger
+                    className={cn(
+                      linkClassName,
+                      'items-center hover:no-underline',
+                      isActiveItem(item, pathname)
+                        ? 'bg-accent text-accent-foreground'
+                        : 'text-foreground'
+                    )}
+                  >
+                    {item.label}
+                  </AccordionTrigger>
+                  <AccordionContent className="flex flex-col gap-1 pt-1 pl-4">
+                    {renderChildren(item, 1)}
+                    {renderLink(
+                      { ...item, label: tCommon('viewAll'), children: [] },
+                      1
+                    )}
+                  </AccordionContent>
+                </AccordionItem>
+              ) : (
+                renderLink(item)
+              )
+            )}
+          </Accordion>
         </nav>
       </SheetContent>
     </Sheet>
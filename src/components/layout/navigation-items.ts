@@ -0,0 +1,115 @@
+import type { Locale } from '@/i18n/config';
+import { getPathname, type Pathnames } from '@/i18n/routing';
+import {
+  isInternalUrl,
+  toPagePath,
+  type WordPressMenuItem,
+} from '@/lib/api/wordpress';
+
+/**
+ * Entry of the main navigation
+ *
+ * Internal links are stored as localized paths without locale prefix
+ * (`/merk`, not `/brand` or `/nl/merk`), the form in which both the
+ * WordPress menu and the browser URL express them, so active state can be
+ * computed by comparing paths.
+ */
+export interface NavigationItem {
+  id: string;
+  label: string;
+  /** Localized path or external URL; null for grouping-only entries */
+  href: string | null;
+  external: boolean;
+  newTab: boolean;
+  children: NavigationItem[];
+}
+
+/**
+ * Fallback navigation when the WordPress menu is unavailable
+ */
+const FALLBACK_LINKS = [
+  { pathname: '/', label: 'home' },
+  { pathname: '/product', label: 'products' },
+  { pathname: '/brand', label: 'brands' },
+  { pathname: '/blog', label: 'blog' },
+  { pathname: '/contact', label: 'contact' },
+] as const satisfies ReadonlyArray<{ pathname: Pathnames; label: string }>;
+
+type FallbackLabel = (typeof FALLBACK_LINKS)[number]['label'];
+
+/**
+ * Convert a path with locale prefix to a localized path without it
+ * (`/nl/merk/12/` → `/merk/12`, `/nl` → `/`)
+ */
+export function toLocalizedPath(path: string): string {
+  return toPagePath(path) || '/';
+}
+
+/**
+ * Build the fallback navigation for a locale
+ *
+ * @param label - Translates a `Navigation` message key
+ */
+export function getFallbackNavigation(
+  locale: Locale,
+  label: (key: FallbackLabel) => string
+): NavigationItem[] {
+  return FALLBACK_LINKS.map((link) => ({
+    id: link.pathname,
+    label: label(link.label),
+    href: toLocalizedPath(getPathname({ locale, href: link.pathname })),
+    external: false,
+    newTab: false,
+    children: [],
+  }));
+}
+
+/**
+ * Convert WordPress menu items (and their children) to navigation items
+ *
+ * Menu items linking to `#` (or nothing) only group their children.
+ */
+export function toNavigationItems(
+  items: WordPressMenuItem[]
+): NavigationItem[] {
+  return items.map((item) => {
+    const internal = isInternalUrl(item.url);
+    const hasLink = item.url !== '' && item.url !== '#';
+
+    return {
+      id: String(item.ID),
+      label: item.title,
+      href: hasLink ? (internal ? toLocalizedPath(item.url) : item.url) : null,
+      external: hasLink && !internal,
+      newTab: item.target === '_blank',
+      children: toNavigationItems(item.children ?? []),
+    };
+  });
+}
+
+/**
+ * Whether a navigation item points to the current page
+ */
+export function isCurrentItem(item: NavigationItem, pathname: string): boolean {
+  return !item.external && item.href === pathname;
+}
+
+/**
+ * Whether the current page is (below) a navigation item or one of its
+ * children
+ *
+ * The home link only matches the home page itself.
+ *
+ * @param pathname - Current localized path, see toLocalizedPath
+ */
+export function isActiveItem(item: NavigationItem, pathname: string): boolean {
+  if (item.children.some((child) => isActiveItem(child, pathname))) {
+    return true;
+  }
+  if (item.external || item.href === null) {
+    return false;
+  }
+  return item.href === '/'
+    ? pathname === '/'
+    : pathname === item.href || pathname.startsWith(`${item.href}/`);
+}
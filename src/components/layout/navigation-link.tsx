@@ -0,0 +1,44 @@
+import type { ComponentProps } from 'react';
+
+import { Link } from '@/i18n/routing';
+
+import type { NavigationItem } from './navigation-items';
+
+type NavigationLinkProps = Omit<ComponentProps<'a'>, 'href'> & {
+  item: NavigationItem & { href: string };
+};
+
+/**
+ * Navigation Link Component
+ *
+ * Renders a navigation item as locale-aware Link, or as plain anchor for
+ * external URLs. Forwards its props, so it can be used with `asChild`.
+ */
+export function NavigationLink({
+  item,
+  children,
+  ...props
+}: NavigationLinkProps) {
+  const newTabProps = item.newTab
+    ? { target: '_blank', rel: 'noopener noreferrer' }
+    : {};
+
+  if (item.external) {
+    return (
+      <a href={item.href} {...newTabProps} {...props}>
+        {children}
+      </a>
+    );
+  }
+
+  return (
+    <Link
+      // Localized WordPress paths are not part of the typed pathnames
+      href={item.href as ComponentProps<typeof Link>['href']}
+      {...newTabProps}
+      {...props}
+    >
+      {children}
+    </Link>
+  );
+}
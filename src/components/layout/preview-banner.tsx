@@ -0,0 +1,43 @@
+'use client';
+
+import { usePathname } from 'next/navigation';
+
+import { Eye } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+
+/**
+ * Preview Banner Component
+ *
+ * Shown above the header while draft mode is enabled, so editors never
+ * mistake unpublished content for the live site. The exit link leaves
+ * preview mode and returns to the current page.
+ *
+ * Accessibility:
+ * - Announced as a status message
+ * - Not sticky, so it never covers content
+ */
+export function PreviewBanner() {
+  const t = useTranslations('Preview');
+  // Full path including the locale prefix
+  const pathname = usePathname();
+  const exitHref = `/api/preview/exit?${new URLSearchParams({
+    returnTo: pathname,
+  }).toString()}`;
+
+  return (
+    <div
+      role="status"
+      className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 bg-amber-400 px-4 py-2 text-sm text-amber-950"
+    >
+      <span className="flex items-center gap-2 font-medium">
+        <Eye className="size-4" aria-hidden="true" />
+        {t('banner')}
+      </span>
+      {/* Plain link: the route handler redirects with a full page load,
+          which also drops draft data from the client-side query cache */}
+      <a href={exitHref} className="underline underline-offset-4">
+        {t('exit')}
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+'use client';
+
+import { useCallback, useEffect, useId, useState } from 'react';
+
+import { Search } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useRouter } from '@/i18n/routing';
+import { useDebouncedValue } from '@/lib/hooks/use-debounced-value';
+import {
+  AUTOCOMPLETE_MIN_LENGTH,
+  useProductAutocomplete,
+} from '@/lib/hooks/use-products';
+import { cn } from '@/lib/utils';
+
+/**
+ * Delay between the last keystroke and the autocomplete request
+ */
+const DEBOUNCE_MS = 250;
+
+/**
+ * A selectable entry in the suggestion list
+ */
+type SuggestionItem =
+  | { type: 'product'; productId: number; label: string; detail: string }
+  | { type: 'brand'; brandId: number; label: string }
+  | {
+      type: 'articleNumber';
+      productId: number;
+      label: string;
+      detail: string;
+    }
+  | { type: 'search'; keyword: string };
+
+interface SuggestionGroup {
+  key: 'products' | 'brands' | 'articleNumbers';
+  items: SuggestionItem[];
+}
+
+/**
+ * Search Command Component
+ *
+ * Global search-as-you-type dialog, opened with the header button or
+ * Ctrl/Cmd+K. Suggestions are grouped into products, brands and article
+ * numbers; Enter opens the active suggestion or, without one, the search
+ * results page for the typed keyword.
+ *
+ * Accessibility:
+ * - ARIA 1.2 combobox with listbox popup and aria-activedescendant
+ * - Full keyboard navigation (arrows, Home/End, Enter, Escape)
+ * - Focus trap and focus restore via Radix Dialog
+ * - Screen reader instructions as dialog description
+ */
+export function SearchCommand() {
+  const t = useTranslations('Search');
+  const tAccessibility = useTranslations('Accessibility');
+  const tProduct = useTranslations('Product');
+  const router = useRouter();
+  const inputId = useId();
+  const listboxId = useId();
+  const [open, setOpen] = useState(false);
+  const [keyword, setKeyword] = useState('');
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const debouncedKeyword = useDebouncedValue(keyword, DEBOUNCE_MS);
+  const trimmedKeyword = keyword.trim();
+  const canSearch = trimmedKeyword.length >= AUTOCOMPLETE_MIN_LENGTH;
+
+  const { data } = useProductAutocomplete(debouncedKeyword, {
+    enabled: open,
+  });
+
+  // Closing resets the search, however the dialog is closed
+  const handleOpenChange = useCallback((nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setKeyword('');
+      setActiveIndex(-1);
+    }
+  }, []);
+
+  // Ctrl/Cmd+K toggles the dialog from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        handleOpenChange(!open);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [open, handleOpenChange]);
+
+  const groups: SuggestionGroup[] =
+    data && canSearch
+      ? [
+          {
+            key: 'products' as const,
+            items: data.products.map(
+              (product): SuggestionItem => ({
+                type: 'product',
+                productId: product.id,
+                label: product.name,
+                detail: product.brand,
+              })
+            ),
+          },
+          {
+            key: 'brands' as const,
+            items: data.brands.map(
+              (brand): SuggestionItem => ({
+                type: 'brand',
+                brandId: brand.id,
+                label: brand.name,
+              })
+            ),
+          },
+          {
+            key: 'articleNumbers' as const,
+            items: data.articleNumbers.map(
+              (item): SuggestionItem => ({
+                type: 'articleNumber',
+                productId: item.productId,
+                label: item.articleNumber,
+                detail: item.name,
+              })
+            ),
+          },
+        ].filter((group) => group.items.length > 0)
+      : [];
+
+  // Flat list in display order: grouped suggestions + "all results"
+  const items: SuggestionItem[] = canSearch
+    ? [
+        ...groups.flatMap((group) => group.items),
+        { type: 'search', keyword: trimmedKeyword },
+      ]
+    : [];
+
+  const optionId = (index: number) => `${listboxId}-option-${String(index)}`;
+
+  const selectItem = (item: SuggestionItem) => {
+    switch (item.type) {
+      case 'product':
+      case 'articleNumber':
+        router.push({
+          pathname: '/product/[id]',
+          params: { id: item.productId },
+        });
+        break;
+      case 'brand':
+        router.push({ pathname: '/brand/[id]', params: { id: item.brandId } });
+        break;
+      case 'search':
+        router.push({ pathname: '/product', query: { q: item.keyword } });
+        break;
+    }
+    handleOpenChange(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (items.length === 0) {
+      return;
+    }
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveIndex((index) => (index + 1) % items.length);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex((index) => (index <= 0 ? items.length - 1 : index - 1));
+        break;
+      case 'Home':
+        event.preventDefault();
+        setActiveIndex(0);
+        break;
+      case 'End':
+        event.preventDefault();
+        setActiveIndex(items.length - 1);
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        const item = items[activeIndex] ?? items[items.length - 1];
+        if (item) {
+          selectItem(item);
+        }
+        break;
+      }
+    }
+  };
+
+  const renderOption = (item: SuggestionItem, index: number) => {
+    const active = index === activeIndex;
+
+    return (
+      <div
+        key={optionId(index)}
+        id={optionId(index)}
+        role="option"
+        aria-selected={active}
+        className={cn(
+          'flex cursor-pointer flex-col rounded-md px-3 py-2 text-sm',
+          active && 'bg-accent text-accent-foreground'
+        )}
+        // Keep focus in the input
+        onMouseDown={(event) => {
+          event.preventDefault();
+        }}
+        onMouseMove={() => {
+          setActiveIndex(index);
+        }}
+        onClick={() => {
+          selectItem(item);
+        }}
+      >
+        {item.type === 'search' ? (
+          <span className="flex items-center gap-2 font-medium">
+            <Search className="size-4" aria-hidden="true" />
+            {t('showAllResults', { keyword: item.keyword })}
+          </span>
+        ) : (
+          <>
+            <span className="font-medium">{item.label}</span>
+            {'detail' in item && item.detail ? (
+              <span className="text-muted-foreground text-xs">
+                {item.detail}
+              </span>
+            ) : null}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="gap-2"
+        aria-label={tAccessibility('openSearch')}
+        aria-keyshortcuts="Control+K Meta+K"
+        onClick={() => {
+          setOpen(true);
+        }}
+      >
+        <Search className="size-4" aria-hidden="true" />
+        <kbd className="text-muted-foreground bg-muted hidden rounded px-1.5 font-mono text-xs lg:inline-block">
+          Ctrl K
+        </kbd>
+      </Button>
+      <DialogContent
+        className="top-24 translate-y-0 gap-0 p-0 sm:max-w-xl"
+        showCloseButton={false}
+      >
+        <DialogTitle className="sr-only">{t('title')}</DialogTitle>
+        <DialogDescription className="sr-only">
+          {t('instructions')}
+        </DialogDescription>
+        <div className="flex items-center gap-2 border-b px-4">
+          <Search
+            className="text-muted-foreground size-4 shrink-0"
+            aria-hidden="true"
+          />
+          <label htmlFor={inputId} className="sr-only">
+            {t('title')}
+          </label>
+          <input
+            id={inputId}
+            type="text"
+            role="combobox"
+            aria-expanded={items.length > 0}
+            aria-controls={listboxId}
+            aria-autocomplete="list"
+            aria-activedescendant={
+              activeIndex >= 0 ? optionId(activeIndex) : undefined
+            }
+            autoComplete="off"
+            spellCheck={false}
+            value={keyword}
+            onChange={(event) => {
+              setKeyword(event.target.value);
+              setActiveIndex(-1);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={tProduct('searchPlaceholder')}
+            className="placeholder:text-muted-foreground h-12 w-full bg-transparent text-sm outline-none"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            aria-label={tAccessibility('closeSearch')}
+            onClick={() => {
+              handleOpenChange(false);
+            }}
+          >
+            <kbd className="text-muted-foreground font-mono text-xs">Esc</kbd>
+          </Button>
+        </div>
+
+        <div
+          id={listboxId}
+          role="listbox"
+          aria-label={t('title')}
+          className="max-h-96 overflow-y-auto p-2"
+        >
+          {groups.map((group, groupIndex) => {
+            const headingId = `${listboxId}-${group.key}`;
+            // Index of the group's first item in the flat list
+            const offset = groups
+              .slice(0, groupIndex)
+              .reduce((total, previous) => total + previous.items.length, 0);
+
+            return (
+              <div key={group.key} role="group" aria-labelledby={headingId}>
+                <div
+                  id={headingId}
+                  className="text-muted-foreground px-3 pt-2 pb-1 text-xs font-medium"
+                >
+                  {t(group.key)}
+                </div>
+                {group.items.map((item, index) =>
+                  renderOption(item, offset + index)
+                )}
+              </div>
+            );
+          })}
+          {canSearch ? (
+            <>
+              {data && groups.length === 0 ? (
+                <p className="text-muted-foreground px-3 py-2 text-sm">
+                  {t('noSuggestions')}
+                </p>
+              ) : null}
+              {renderOption(
+                { type: 'search', keyword: trimmedKeyword },
+                items.length - 1
+              )}
+            </>
+          ) : (
+            <p className="text-muted-foreground px-3 py-2 text-sm">
+              {t('minLength', { count: AUTOCOMPLETE_MIN_LENGTH })}
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,24 +13,16 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Link } from '@/i18n/routing';
-
-interface UserMenuProps {
-  /**
-   * Session data if user is logged in
-   */
-  session?: {
-    user: {
-      name?: string;
-      email: string;
-    };
-  } | null;
-}
+import { logoutAction } from '@/lib/auth/actions';
+import { useUser } from '@/lib/hooks/use-session';
 
 /**
  * User Menu Component
  *
  * Shows login button for unauthenticated users, or
  * a dropdown menu with user options for authenticated users.
+ * Reads the user from the session query, so it follows logins and
+ * logouts without a reload.
  *
  * Accessibility:
  * - Keyboard navigable dropdown
@@ -38,11 +30,12 @@ interface UserMenuProps {
  * - Focus management via Radix UI
  * - Clear visual states
  */
-export function UserMenu({ session }: UserMenuProps) {
+export function UserMenu() {
   const t = useTranslations('Navigation');
+  const user = useUser();
 
   // Not logged in - show login button
-  if (!session) {
+  if (!user) {
     return (
       <Button
         asChild
@@ -71,17 +64,17 @@ export function UserMenu({ session }: UserMenuProps) {
         >
           <User className="size-4" aria-hidden="true" />
           <span className="sr-only sm:not-sr-only">
-            {session.user.name ?? session.user.email}
+            {user.name ?? user.email}
           </span>
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" className="w-56">
         <DropdownMenuLabel>
           <div className="flex flex-col space-y-1">
-            {session.user.name ? <p className="text-sm font-medium">{session.user.name}</p> : null}
-            <p className="text-muted-foreground text-xs">
-              {session.user.email}
-            </p>
+            {user.name ? (
+              <p className="text-sm font-medium">{user.name}</p>
+            ) : null}
+            <p className="text-muted-foreground text-xs">{user.email}</p>
           </div>
         </DropdownMenuLabel>
         <DropdownMenuSeparator />
@@ -104,12 +97,14 @@ export function UserMenu({ session }: UserMenuProps) {
           </Link>
         </DropdownMenuItem>
         <DropdownMenuSeparator />
-        <DropdownMenuItem asChild>
-          <Link href="/logout" className="gap-2">
-            <LogOut className="size-4" aria-hidden="true" />
-            <span>{t('logout')}</span>
-          </Link>
-        </DropdownMenuItem>
+        <form action={logoutAction}>
+          <DropdownMenuItem asChild>
+            <button type="submit" className="w-full gap-2">
+              <LogOut className="size-4" aria-hidden="true" />
+              <span>{t('logout')}</span>
+            </button>
+          </DropdownMenuItem>
+        </form>
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -0,0 +1,88 @@
+'use client';
+
+import { Heart } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Link } from '@/i18n/routing';
+import { useFavorites, useToggleListProduct } from '@/lib/hooks/use-lists';
+import { useUser } from '@/lib/hooks/use-session';
+import { cn } from '@/lib/utils';
+
+interface FavoriteToggleProps {
+  productId: number;
+  productName: string;
+  className?: string;
+}
+
+/**
+ * Favorite Toggle
+ *
+ * Heart button that adds a product to (or removes it from) the favorites
+ * of the logged-in user. Updates optimistically; a failed save is rolled
+ * back and reported with a toast. Logged-out users get a link to the
+ * login page instead.
+ *
+ * Accessibility:
+ * - Accessible name states the action and includes the product name
+ */
+export function FavoriteToggle({
+  productId,
+  productName,
+  className,
+}: FavoriteToggleProps) {
+  const t = useTranslations('Product');
+  const tLists = useTranslations('Lists');
+  const user = useUser();
+  const favorites = useFavorites();
+  const { mutate } = useToggleListProduct();
+
+  if (user === null) {
+    return (
+      <Button
+        asChild
+        variant="outline"
+        size="icon"
+        className={cn('rounded-full', className)}
+      >
+        <Link href="/login" aria-label={tLists('signInToSave')}>
+          <Heart aria-hidden="true" />
+        </Link>
+      </Button>
+    );
+  }
+
+  const isFavorite = favorites?.productIds.includes(productId) ?? false;
+
+  return (
+    <Button
+      variant="outline"
+      size="icon"
+      className={cn('rounded-full', className)}
+      disabled={!favorites}
+      aria-label={`${
+        isFavorite ? t('removeFromFavorites') : t('addToFavorites')
+      }: ${productName}`}
+      onClick={() => {
+        if (!favorites) {
+          return;
+        }
+
+        mutate(
+          { listId: favorites.id, productId, included: !isFavorite },
+          {
+            onError: () => {
+              toast.error(tLists('saveFailed'));
+            },
+          }
+        );
+      }}
+    >
+      <Heart
+        aria-hidden="true"
+        className={cn(isFavorite && 'fill-red-500 text-red-500')}
+      />
+    </Button>
+  );
+}
@@ -0,0 +1,513 @@
+'use client';
+
+import { useId, useState, type FormEvent } from 'react';
+
+import Image from 'next/image';
+
+import {
+  ArrowDown,
+  ArrowUp,
+  Heart,
+  Link2,
+  Pencil,
+  Share2,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { Locale } from '@/i18n/config';
+import { getPathname, Link } from '@/i18n/routing';
+import { LIST_NAME_MAX_LENGTH, listNameSchema } from '@/lib/api/lists';
+import {
+  useCreateList,
+  useDeleteList,
+  useLists,
+  useRenameList,
+  useReorderLists,
+  useShareList,
+  useToggleListProduct,
+  type ProductList,
+} from '@/lib/hooks/use-lists';
+import { useProductsByIds } from '@/lib/hooks/use-products';
+
+/**
+ * Lists Manager
+ *
+ * Account page section to manage the favorites and named lists of the
+ * logged-in user: create, rename, reorder, share and delete lists, and
+ * remove products from them. All changes are applied optimistically and
+ * rolled back (with a toast) when saving fails.
+ *
+ * Accessibility:
+ * - A labelled region per list, with the list name as heading
+ * - Icon buttons labelled with the action and the list name
+ * - Delete confirmation in a Radix Dialog (focus trap and restore)
+ */
+export function ListsManager() {
+  const t = useTranslations('Lists');
+  const tCommon = useTranslations('Common');
+  const { data: lists, isPending, isError, refetch } = useLists();
+  const { mutate: reorder } = useReorderLists();
+
+  if (isPending) {
+    return (
+      <div className="flex flex-col gap-4">
+        {Array.from({ length: 3 }, (_, index) => (
+          <Skeleton key={index} className="h-40 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="flex flex-col items-start gap-2" role="alert">
+        <p className="text-destructive">{tCommon('error')}</p>
+        <Button variant="outline" size="sm" onClick={() => void refetch()}>
+          {tCommon('tryAgain')}
+        </Button>
+      </div>
+    );
+  }
+
+  const move = (index: number, offset: -1 | 1) => {
+    const listIds = lists.map(({ id }) => id);
+    const [listId] = listIds.splice(index, 1);
+
+    if (listId === undefined) {
+      return;
+    }
+
+    listIds.splice(index + offset, 0, listId);
+    reorder(
+      { listIds },
+      {
+        onError: () => {
+          toast.error(t('saveFailed'));
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <CreateListForm />
+      {lists.every((list) => list.isFavorites) ? (
+        <p className="text-muted-foreground">{t('noLists')}</p>
+      ) : null}
+      <ul className="flex flex-col gap-4" role="list">
+        {lists.map((list, index) => (
+          <li key={list.id}>
+            <ListCard
+              list={list}
+              // Lists still being created cannot be changed yet
+              pending={lists.some(({ id }) => id < 0)}
+              {...(index > 0 && {
+                onMoveUp: () => {
+                  move(index, -1);
+                },
+              })}
+              {...(index < lists.length - 1 && {
+                onMoveDown: () => {
+                  move(index, 1);
+                },
+              })}
+            />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+interface ListNameFormProps {
+  label: string;
+  submitLabel: string;
+  defaultValue?: string;
+  onSubmit: (name: string) => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Form with a list name field, for creating and renaming lists
+ */
+function ListNameForm({
+  label,
+  submitLabel,
+  defaultValue = '',
+  onSubmit,
+  onCancel,
+}: ListNameFormProps) {
+  const t = useTranslations('Lists');
+  const tCommon = useTranslations('Common');
+  const id = useId();
+  const [name, setName] = useState(defaultValue);
+  const isValid = listNameSchema.safeParse(name).success;
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (isValid) {
+      onSubmit(name.trim());
+      setName(defaultValue);
+    }
+  };
+
+  return (
+    <form className="flex flex-wrap items-end gap-2" onSubmit={handleSubmit}>
+      <div className="flex min-w-48 flex-1 flex-col gap-2">
+        <Label htmlFor={id}>{label}</Label>
+        <Input
+          id={id}
+          value={name}
+          maxLength={LIST_NAME_MAX_LENGTH}
+          placeholder={t('listNamePlaceholder')}
+          required
+          autoFocus={onCancel !== undefined}
+          onChange={(event) => {
+            setName(event.target.value);
+          }}
+          onKeyDown={(event) => {
+            if (event.key === 'Escape') {
+              onCancel?.();
+            }
+          }}
+        />
+      </div>
+      <Button type="submit" disabled={!isValid}>
+        {submitLabel}
+      </Button>
+      {onCancel ? (
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          {tCommon('cancel')}
+        </Button>
+      ) : null}
+    </form>
+  );
+}
+
+/**
+ * Form to create a named list
+ */
+function CreateListForm() {
+  const t = useTranslations('Lists');
+  const { mutate } = useCreateList();
+
+  return (
+    <ListNameForm
+      label={t('newList')}
+      submitLabel={t('create')}
+      onSubmit={(name) => {
+        mutate(
+          { name },
+          {
+            onError: () => {
+              toast.error(t('saveFailed'));
+            },
+          }
+        );
+      }}
+    />
+  );
+}
+
+interface ListCardProps {
+  list: ProductList;
+  /** Whether a new list is still being created (it has no ID yet) */
+  pending: boolean;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+}
+
+/**
+ * A list with its actions and products
+ */
+function ListCard({ list, pending, onMoveUp, onMoveDown }: ListCardProps) {
+  const t = useTranslations('Lists');
+  const tCommon = useTranslations('Common');
+  const locale = useLocale() as Locale;
+  const headingId = useId();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { mutate: rename } = useRenameList();
+  const { mutate: remove } = useDeleteList();
+  const { mutateAsync: share } = useShareList();
+  const name = list.isFavorites ? t('favorites') : list.name;
+  const onError = () => {
+    toast.error(t('saveFailed'));
+  };
+
+  const copyLink = async (shareToken: string) => {
+    const path = getPathname({
+      href: { pathname: '/list/[token]', params: { token: shareToken } },
+      locale,
+    });
+
+    await navigator.clipboard.writeText(`${window.location.origin}${path}`);
+    toast.success(t('linkCopied'));
+  };
+
+  const handleShare = async () => {
+    try {
+      const shareToken =
+        list.shareToken ??
+        (await share({ listId: list.id, shared: true })).shareToken;
+
+      if (shareToken !== null) {
+        await copyLink(shareToken);
+      }
+    } catch {
+      onError();
+    }
+  };
+
+  return (
+    <Card aria-labelledby={headingId} role="region">
+      <CardHeader className="flex flex-wrap items-start justify-between gap-4">
+        {isRenaming ? (
+          <div className="w-full">
+            <ListNameForm
+              label={t('listName')}
+              submitLabel={tCommon('save')}
+              defaultValue={list.name}
+              onSubmit={(newName) => {
+                rename({ listId: list.id, name: newName }, { onError });
+                setIsRenaming(false);
+              }}
+              onCancel={() => {
+                setIsRenaming(false);
+              }}
+            />
+          </div>
+        ) : (
+          <div className="flex flex-col gap-1">
+            <CardTitle className="flex items-center gap-2">
+              {list.isFavorites ? (
+                <Heart
+                  className="size-4 fill-red-500 text-red-500"
+                  aria-hidden="true"
+                />
+              ) : null}
+              <h3 id={headingId} className="text-lg">
+                {name}
+              </h3>
+              {list.shareToken !== null ? (
+                <Badge variant="secondary">{t('shared')}</Badge>
+              ) : null}
+            </CardTitle>
+            <CardDescription>
+              {t('productCount', { count: list.productIds.length })}
+            </CardDescription>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={pending || !onMoveUp}
+            aria-label={t('moveUp', { name })}
+            onClick={onMoveUp}
+          >
+            <ArrowUp aria-hidden="true" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={pending || !onMoveDown}
+            aria-label={t('moveDown', { name })}
+            onClick={onMoveDown}
+          >
+            <ArrowDown aria-hidden="true" />
+          </Button>
+          {list.isFavorites ? null : (
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={pending || isRenaming}
+              aria-label={t('rename', { name })}
+              onClick={() => {
+                setIsRenaming(true);
+              }}
+            >
+              <Pencil aria-hidden="true" />
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={pending}
+            onClick={() => void handleShare()}
+          >
+            {list.shareToken !== null ? (
+              <Link2 aria-hidden="true" />
+            ) : (
+              <Share2 aria-hidden="true" />
+            )}
+            {list.shareToken !== null ? t('copyLink') : t('share')}
+          </Button>
+          {list.shareToken !== null ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={pending}
+              onClick={() => {
+                share({ listId: list.id, shared: false }).catch(onError);
+              }}
+            >
+              {t('stopSharing')}
+            </Button>
+          ) : null}
+          {list.isFavorites ? null : (
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={pending}
+              aria-label={t('delete', { name })}
+              onClick={() => {
+                setIsDeleting(true);
+              }}
+            >
+              <Trash2 aria-hidden="true" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <ListProducts list={list} name={name} />
+      </CardContent>
+
+      <Dialog open={isDeleting} onOpenChange={setIsDeleting}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('deleteTitle')}</DialogTitle>
+            <DialogDescription>
+              {t('deleteConfirm', { name })}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">{tCommon('cancel')}</Button>
+            </DialogClose>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                remove({ listId: list.id }, { onError });
+                setIsDeleting(false);
+              }}
+            >
+              {tCommon('delete')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+interface ListProductsProps {
+  list: ProductList;
+  /** Display name of the list */
+  name: string;
+}
+
+/**
+ * Products of a list, with a button to remove each
+ */
+function ListProducts({ list, name }: ListProductsProps) {
+  const t = useTranslations('Lists');
+  const tCommon = useTranslations('Common');
+  const { products, isPending, isError, refetch } = useProductsByIds(
+    list.productIds
+  );
+  const { mutate } = useToggleListProduct();
+
+  if (list.productIds.length === 0) {
+    return <p className="text-muted-foreground text-sm">{t('emptyList')}</p>;
+  }
+
+  if (isPending) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {isError ? (
+        <div className="flex items-center gap-2" role="alert">
+          <p className="text-destructive text-sm">{tCommon('error')}</p>
+          <Button variant="outline" size="sm" onClick={refetch}>
+            {tCommon('tryAgain')}
+          </Button>
+        </div>
+      ) : null}
+      <ul className="divide-y" role="list">
+        {products.map((product) => (
+          <li key={product.id} className="flex items-center gap-3 py-2">
+            <Image
+              src={product.image}
+              alt=""
+              width={40}
+              height={40}
+              className="bg-muted size-10 rounded object-contain"
+            />
+            <div className="flex min-w-0 flex-1 flex-col">
+              <Link
+                href={{ pathname: '/product/[id]', params: { id: product.id } }}
+                className="truncate text-sm font-medium hover:underline"
+              >
+                {product.name}
+              </Link>
+              <span className="text-muted-foreground text-xs">
+                {product.brand}
+              </span>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={t('removeProduct', {
+                name: product.name,
+                list: name,
+              })}
+              onClick={() => {
+                mutate(
+                  { listId: list.id, productId: product.id, included: false },
+                  {
+                    onError: () => {
+                      toast.error(t('saveFailed'));
+                    },
+                  }
+                );
+              }}
+            >
+              <X aria-hidden="true" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
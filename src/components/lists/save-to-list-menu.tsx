@@ -0,0 +1,102 @@
+'use client';
+
+import { ListPlus, Settings2 } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Link } from '@/i18n/routing';
+import { useLists, useToggleListProduct } from '@/lib/hooks/use-lists';
+import { useUser } from '@/lib/hooks/use-session';
+
+interface SaveToListMenuProps {
+  productId: number;
+  productName: string;
+}
+
+/**
+ * Save To List Menu
+ *
+ * Dropdown with a checkbox per named list of the logged-in user, to add
+ * a product to (or remove it from) that list, and a link to manage the
+ * lists on the account page. Favorites have their own toggle
+ * (FavoriteToggle). Not rendered for logged-out users.
+ *
+ * Accessibility:
+ * - Keyboard navigable dropdown via Radix UI
+ * - Checkbox items expose whether the product is in a list
+ */
+export function SaveToListMenu({
+  productId,
+  productName,
+}: SaveToListMenuProps) {
+  const t = useTranslations('Lists');
+  const user = useUser();
+  const { data: lists } = useLists();
+  const { mutate } = useToggleListProduct();
+
+  if (!user) {
+    return null;
+  }
+
+  const namedLists = lists?.filter((list) => !list.isFavorites) ?? [];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          className="w-fit"
+          disabled={!lists}
+          aria-label={t('saveToListProduct', { name: productName })}
+        >
+          <ListPlus aria-hidden="true" />
+          {t('saveToList')}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuLabel>{t('saveToList')}</DropdownMenuLabel>
+        {namedLists.map((list) => (
+          <DropdownMenuCheckboxItem
+            key={list.id}
+            checked={list.productIds.includes(productId)}
+            // Lists still being created have no ID yet
+            disabled={list.id < 0}
+            onSelect={(event) => {
+              // Keep the menu open to save to several lists
+              event.preventDefault();
+            }}
+            onCheckedChange={(checked) => {
+              mutate(
+                { listId: list.id, productId, included: checked },
+                {
+                  onError: () => {
+                    toast.error(t('saveFailed'));
+                  },
+                }
+              );
+            }}
+          >
+            <span className="truncate">{list.name}</span>
+          </DropdownMenuCheckboxItem>
+        ))}
+        {namedLists.length > 0 ? <DropdownMenuSeparator /> : null}
+        <DropdownMenuItem asChild>
+          <Link href="/account" className="gap-2">
+            <Settings2 className="size-4" aria-hidden="true" />
+            <span>{t('manageLists')}</span>
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useTranslations } from 'next-intl';
+
+import { ProductGrid } from '@/components/product/product-grid';
+import { ProductLoadMore } from '@/components/product/product-load-more';
+import { SHARED_LIST_PAGE_SIZE } from '@/lib/api/lists';
+import { useProductsByIds } from '@/lib/hooks/use-products';
+
+interface SharedListViewProps {
+  productIds: number[];
+}
+
+/**
+ * Shared List View
+ *
+ * Product grid of a shared list. The first page of product sheets is
+ * prefetched by the server page; further pages are loaded on scroll (or
+ * with "load more"), SHARED_LIST_PAGE_SIZE at a time.
+ */
+export function SharedListView({ productIds }: SharedListViewProps) {
+  const t = useTranslations('Lists');
+  const [visibleCount, setVisibleCount] = useState(SHARED_LIST_PAGE_SIZE);
+  const { products, isPending, isError, refetch } = useProductsByIds(
+    productIds.slice(0, visibleCount)
+  );
+
+  if (productIds.length === 0) {
+    return <p className="text-muted-foreground">{t('emptyList')}</p>;
+  }
+
+  // Keep the loaded products visible while the next page loads
+  const isFetchingNextPage = isPending && products.length > 0;
+  const isFirstPagePending = isPending && products.length === 0;
+  const hasNextPage = !isError && visibleCount < productIds.length;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <ProductGrid
+        products={products}
+        isPending={isFirstPagePending}
+        isError={isError}
+        isFetching={isFetchingNextPage}
+        onRetry={refetch}
+      />
+      <ProductLoadMore
+        hasNextPage={hasNextPage}
+        isFetchingNextPage={isFetchingNextPage}
+        onLoadMore={() => {
+          setVisibleCount((count) => count + SHARED_LIST_PAGE_SIZE);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import {
+  Bean,
+  Egg,
+  Fish,
+  Flower,
+  Flower2,
+  Leaf,
+  Milk,
+  Nut,
+  Shell,
+  Shrimp,
+  Sprout,
+  TreeDeciduous,
+  Wheat,
+  Wine,
+  type LucideIcon,
+} from 'lucide-react';
+
+import type { AllergenCode } from '@/lib/allergens';
+import { cn } from '@/lib/utils';
+
+/**
+ * Icon per allergen
+ */
+const ALLERGEN_ICONS: Record<AllergenCode, LucideIcon> = {
+  gluten: Wheat,
+  crustaceans: Shrimp,
+  eggs: Egg,
+  fish: Fish,
+  peanuts: Nut,
+  soybeans: Bean,
+  milk: Milk,
+  nuts: TreeDeciduous,
+  celery: Leaf,
+  mustard: Flower,
+  sesame: Sprout,
+  sulphites: Wine,
+  lupin: Flower2,
+  molluscs: Shell,
+};
+
+interface AllergenIconProps {
+  code: AllergenCode;
+  className?: string;
+}
+
+/**
+ * Allergen Icon
+ *
+ * Decorative: always render the allergen name next to it.
+ */
+export function AllergenIcon({ code, className }: AllergenIconProps) {
+  const Icon = ALLERGEN_ICONS[code];
+
+  return <Icon className={cn('size-4', className)} aria-hidden="true" />;
+}
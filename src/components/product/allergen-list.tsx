@@ -0,0 +1,72 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+
+import { Badge } from '@/components/ui/badge';
+import { ALLERGEN_LEVELS } from '@/lib/allergens';
+import type { ProductAllergen } from '@/lib/api/foodbook';
+import { cn } from '@/lib/utils';
+
+import { AllergenIcon } from './allergen-icon';
+
+interface AllergenListProps {
+  allergens: ProductAllergen[];
+}
+
+/**
+ * Badge style per level, from most to least severe
+ */
+const LEVEL_BADGE_CLASS_NAMES = {
+  contains: 'border-destructive/50 text-destructive',
+  mayContain: 'border-amber-500/50 text-amber-700 dark:text-amber-400',
+  freeFrom: 'text-muted-foreground',
+} as const;
+
+/**
+ * Allergen List Component
+ *
+ * Allergen declarations of a product, grouped by level (contains, may
+ * contain, free from), with icons and localized names. Declared sub-types
+ * follow the allergen name, e.g. "Nuts (hazelnuts, almonds)".
+ */
+export function AllergenList({ allergens }: AllergenListProps) {
+  const t = useTranslations('Allergens');
+
+  return (
+    <div className="flex flex-col gap-4">
+      {ALLERGEN_LEVELS.map((level) => {
+        const declared = allergens.filter(
+          (allergen) => allergen.level === level
+        );
+
+        if (declared.length === 0) {
+          return null;
+        }
+
+        return (
+          <section key={level} className="flex flex-col gap-2">
+            <h3 className="text-sm font-medium">{t(`levels.${level}`)}</h3>
+            <ul className="flex flex-wrap gap-2" role="list">
+              {declared.map((allergen) => (
+                <li key={allergen.code}>
+                  <Badge
+                    variant="outline"
+                    className={cn('gap-1.5', LEVEL_BADGE_CLASS_NAMES[level])}
+                  >
+                    <AllergenIcon code={allergen.code} className="size-3.5" />
+                    {t(`names.${allergen.code}`)}
+                    {allergen.subtypes.length > 0
+                      ? ` (${allergen.subtypes
+                          .map((subtype) => t(`subtypes.${subtype}`))
+                          .join(', ')})`
+                      : null}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
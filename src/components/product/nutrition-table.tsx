@@ -0,0 +1,208 @@
+'use client';
+
+import { Fragment, useId, useState } from 'react';
+
+import { useFormatter, useTranslations } from 'next-intl';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { ProductNutrition } from '@/lib/api/foodbook';
+import {
+  getNutrient,
+  NUTRIENT_CODES,
+  toPortionValue,
+  toReferenceIntake,
+  withEnergy,
+  type NutrientCode,
+  type NutrientValue,
+} from '@/lib/nutrients';
+import { cn } from '@/lib/utils';
+
+interface NutritionTableProps {
+  nutrition: ProductNutrition;
+}
+
+/**
+ * Nutrition Table Component
+ *
+ * Nutrition declaration of a product per 100 g/100 ml and per portion,
+ * with the percentage of the reference intake (%RI) of the portion (or of
+ * 100 g/ml without a portion). The portion starts at the suggested
+ * portion of the product and can be changed. Energy is shown in kJ and
+ * kcal on one row, as on the label.
+ *
+ * Accessibility:
+ * - Table with column headers and row headers
+ * - Portion size input with an associated label
+ */
+export function NutritionTable({ nutrition }: NutritionTableProps) {
+  const t = useTranslations('Nutrients');
+  const tProduct = useTranslations('Product');
+  const format = useFormatter();
+  const id = useId();
+  // The raw input, so incomplete values (`0.`) can be typed
+  const [portionInput, setPortionInput] = useState(
+    nutrition.portion?.size.toString() ?? ''
+  );
+  const parsedPortion = Number(portionInput);
+  // Empty and incomplete input (Number('') is 0) hide the portion column
+  const portionSize =
+    Number.isFinite(parsedPortion) && parsedPortion > 0 ? parsedPortion : null;
+
+  const unit = nutrition.basis === '100ml' ? 'ml' : 'g';
+  const nutrients = withEnergy(nutrition.nutrients);
+  const valueOf = (code: NutrientCode) =>
+    nutrients.find((nutrient) => nutrient.code === code)?.value;
+  // In declaration order; kcal is shown on the kJ row
+  const rows = NUTRIENT_CODES.flatMap((code) => {
+    const value = valueOf(code);
+    return value !== undefined && code !== 'energyKcal'
+      ? [{ code, value }]
+      : [];
+  });
+  const firstMicronutrient = rows.find(
+    (row) => getNutrient(row.code).micronutrient
+  );
+
+  const formatAmount = ({ code, value }: NutrientValue) => {
+    const nutrient = getNutrient(code);
+    const amount =
+      nutrient.unit === 'g'
+        ? format.number(value, {
+            maximumFractionDigits: code === 'salt' ? 2 : value < 10 ? 1 : 0,
+          })
+        : nutrient.unit === 'mg' || nutrient.unit === 'µg'
+          ? format.number(value, { maximumSignificantDigits: 3 })
+          : format.number(value, { maximumFractionDigits: 0 });
+
+    return `${amount} ${nutrient.unit}`;
+  };
+
+  const formatValue = (code: NutrientCode, value: number, scale: number) => {
+    const scaled = (nutrientCode: NutrientCode, nutrientValue: number) =>
+      formatAmount({
+        code: nutrientCode,
+        value: toPortionValue(nutrientValue, scale),
+      });
+
+    if (code !== 'energyKj') {
+      return scaled(code, value);
+    }
+
+    const kcal = valueOf('energyKcal') ?? 0;
+    return `${scaled('energyKj', value)} / ${scaled('energyKcal', kcal)}`;
+  };
+
+  const formatReferenceIntake = (code: NutrientCode, value: number) => {
+    const fraction = toReferenceIntake(
+      code,
+      toPortionValue(value, portionSize ?? 100)
+    );
+
+    return fraction === null
+      ? null
+      : format.number(fraction, { style: 'percent', maximumFractionDigits: 0 });
+  };
+
+  return (
+    <div className="flex max-w-2xl flex-col gap-4">
+      <div className="flex items-center gap-2">
+        <Label htmlFor={`${id}-portion`}>{t('portionSize')}</Label>
+        <Input
+          id={`${id}-portion`}
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step="any"
+          className="w-24"
+          value={portionInput}
+          onChange={(event) => {
+            setPortionInput(event.target.value);
+          }}
+        />
+        <span className="text-muted-foreground text-sm">{unit}</span>
+        {nutrition.portion?.description ? (
+          <span className="text-muted-foreground text-sm">
+            ({nutrition.portion.description})
+          </span>
+        ) : null}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{tProduct('nutritionalInfo')}</TableHead>
+            <TableHead className="text-right">
+              {nutrition.basis === '100ml' ? t('per100ml') : t('per100g')}
+            </TableHead>
+            {portionSize !== null ? (
+              <TableHead className="text-right">
+                {t('perPortion', {
+                  size: `${format.number(portionSize)} ${unit}`,
+                })}
+              </TableHead>
+            ) : null}
+            <TableHead className="text-right">{t('referenceIntake')}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ code, value }) => (
+            <Fragment key={code}>
+              {firstMicronutrient?.code === code ? (
+                <TableRow>
+                  <TableHead
+                    scope="rowgroup"
+                    colSpan={portionSize !== null ? 4 : 3}
+                  >
+                    {t('vitaminsAndMinerals')}
+                  </TableHead>
+                </TableRow>
+              ) : null}
+              <TableRow>
+                <TableHead
+                  scope="row"
+                  className={cn(
+                    'font-normal',
+                    getNutrient(code).subNutrient && 'pl-6'
+                  )}
+                >
+                  {t(`names.${code}`)}
+                </TableHead>
+                <TableCell className="text-right tabular-nums">
+                  {formatValue(code, value, 100)}
+                </TableCell>
+                {portionSize !== null ? (
+                  <TableCell className="text-right tabular-nums">
+                    {formatValue(code, value, portionSize)}
+                  </TableCell>
+                ) : null}
+                <TableCell className="text-right tabular-nums">
+                  {formatReferenceIntake(code, value)}
+                </TableCell>
+              </TableRow>
+            </Fragment>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell
+              colSpan={portionSize !== null ? 4 : 3}
+              className="text-muted-foreground text-xs font-normal"
+            >
+              {t('referenceIntakeNote')}
+            </TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+    </div>
+  );
+}
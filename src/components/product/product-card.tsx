@@ -0,0 +1,85 @@
+import Image from 'next/image';
+
+import { useFormatter, useTranslations } from 'next-intl';
+
+import { AllergenMatrixToggle } from '@/components/allergen-matrix/allergen-matrix-toggle';
+import { CompareToggle } from '@/components/compare/compare-toggle';
+import { FavoriteToggle } from '@/components/lists/favorite-toggle';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Link } from '@/i18n/routing';
+import type { Product } from '@/lib/api/foodbook';
+
+interface ProductCardProps {
+  product: Product;
+}
+
+/**
+ * Product Card Component
+ *
+ * Compact product tile for search results and product grids.
+ * The whole card links to the product detail page; the selection controls
+ * are placed above that link.
+ *
+ * Accessibility:
+ * - Single link per card (controls are siblings, not nested in the link)
+ * - Product name as link text, image is decorative
+ * - Visible focus indicator
+ */
+export function ProductCard({ product }: ProductCardProps) {
+  const t = useTranslations('Product');
+  const format = useFormatter();
+
+  return (
+    <Card className="has-[a:focus-visible]:ring-ring relative w-full gap-4 overflow-hidden py-0 transition-shadow hover:shadow-md has-[a:focus-visible]:ring-2">
+      <div className="bg-muted relative aspect-square">
+        <Image
+          src={product.image}
+          alt=""
+          fill
+          sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
+          className="object-contain"
+        />
+        <FavoriteToggle
+          productId={product.id}
+          productName={product.name}
+          className="bg-background/80 absolute top-2 right-2 z-10"
+        />
+      </div>
+      <CardContent className="flex flex-1 flex-col gap-2 px-4 pb-4">
+        <p className="text-muted-foreground text-xs font-medium">
+          {product.brand}
+        </p>
+        <h3 className="line-clamp-2 font-semibold">
+          <Link
+            href={{ pathname: '/product/[id]', params: { id: product.id } }}
+            className="after:absolute after:inset-0 focus-visible:outline-none"
+          >
+            {product.name}
+          </Link>
+        </h3>
+        <p className="text-muted-foreground text-xs">
+          {t('articleNumber')}: {product.articleNumber}
+        </p>
+        <div className="mt-auto flex items-center justify-between gap-2 pt-2">
+          <span className="font-semibold">
+            {format.number(product.price, {
+              style: 'currency',
+              currency: 'EUR',
+            })}
+          </span>
+          <Badge variant={product.inStock ? 'secondary' : 'outline'}>
+            {product.inStock ? t('inStock') : t('outOfStock')}
+          </Badge>
+        </div>
+        <div className="relative z-10 flex flex-wrap gap-x-4 gap-y-2">
+          <AllergenMatrixToggle
+            productId={product.id}
+            productName={product.name}
+          />
+          <CompareToggle product={product} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
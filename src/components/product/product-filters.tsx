@@ -0,0 +1,380 @@
+'use client';
+
+import { useId, useState } from 'react';
+
+import { useFormatter, useTranslations } from 'next-intl';
+
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Slider } from '@/components/ui/slider';
+import { useFilters } from '@/lib/hooks/use-filters';
+import { useProductSearchState } from '@/lib/hooks/use-product-search';
+import { toProductSearchParams } from '@/lib/search/product-search-params';
+
+interface ProductFiltersProps {
+  /**
+   * Restrict the facets to a single brand (brand pages); hides the brand
+   * filter
+   */
+  brandId?: number;
+}
+
+/**
+ * Checkbox facet option, normalized over the different facet types
+ */
+interface FacetGroupOption<T extends string | number> {
+  value: T;
+  label: string;
+  count: number;
+}
+
+/**
+ * Accordion sections, all expanded by default
+ */
+const SECTIONS = [
+  'brands',
+  'categories',
+  'allergenFree',
+  'certifications',
+  'priceRange',
+  'availability',
+] as const;
+
+/**
+ * Product Filters Component
+ *
+ * Filter sidebar for product searches (catalog and brand pages), driven
+ * by the facets of the current search (useFilters). Every option shows
+ * its result count and options without results are disabled, so a
+ * filter combination never leads to an empty result page. All filter
+ * values live in the URL (via useProductSearchState); changing a filter
+ * resets paging.
+ *
+ * Accessibility:
+ * - Collapsible groups via Radix Accordion
+ * - Checkboxes with associated labels and result counts
+ * - Slider with an accessible name
+ */
+export function ProductFilters({ brandId }: ProductFiltersProps) {
+  const t = useTranslations('Product');
+  const tCommon = useTranslations('Common');
+  const tAllergens = useTranslations('Allergens');
+  const [search, setSearch] = useProductSearchState();
+  const params = toProductSearchParams(search);
+  const facetParams =
+    brandId === undefined ? params : { ...params, brands: [brandId] };
+  const { data: facets, isError, refetch } = useFilters(facetParams);
+
+  const hasActiveFilters =
+    (brandId === undefined && search.brands.length > 0) ||
+    search.categories.length > 0 ||
+    search.allergenFree.length > 0 ||
+    search.certifications.length > 0 ||
+    search.minPrice !== null ||
+    search.maxPrice !== null ||
+    search.inStock;
+
+  const resetFilters = () => {
+    void setSearch({
+      brands: null,
+      categories: null,
+      allergenFree: null,
+      excludeMayContain: null,
+      certifications: null,
+      minPrice: null,
+      maxPrice: null,
+      inStock: null,
+      page: null,
+    });
+  };
+
+  return (
+    <aside className="flex flex-col gap-2" aria-label={t('filters')}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{t('filters')}</h2>
+        {hasActiveFilters ? (
+          <Button variant="ghost" size="sm" onClick={resetFilters}>
+            {tCommon('reset')}
+          </Button>
+        ) : null}
+      </div>
+
+      {facets ? (
+        <Accordion type="multiple" defaultValue={[...SECTIONS]}>
+          {brandId === undefined ? (
+            <FacetGroup
+              value="brands"
+              title={t('brands')}
+              options={facets.brands.map((brand) => ({
+                value: brand.id,
+                label: brand.name,
+                count: brand.count,
+              }))}
+              selected={search.brands}
+              onChange={(brands) => {
+                void setSearch({ brands, page: null });
+              }}
+            />
+          ) : null}
+
+          <FacetGroup
+            value="categories"
+            title={t('categories')}
+            options={facets.categories.map((category) => ({
+              value: category.id,
+              label: category.name,
+              count: category.count,
+            }))}
+            selected={search.categories}
+            onChange={(categories) => {
+              void setSearch({ categories, page: null });
+            }}
+          />
+
+          <FacetGroup
+            value="allergenFree"
+            title={t('allergenFree')}
+            options={facets.allergenFree.map((allergen) => ({
+              value: allergen.code,
+              label: tAllergens(`names.${allergen.code}`),
+              count: allergen.count,
+            }))}
+            selected={search.allergenFree}
+            onChange={(allergenFree) => {
+              void setSearch({ allergenFree, page: null });
+            }}
+          >
+            {/* Only applies to the selected allergens */}
+            {search.allergenFree.length > 0 ? (
+              <Label className="border-t pt-3 font-normal">
+                <Checkbox
+                  checked={search.excludeMayContain}
+                  onCheckedChange={(checked) => {
+                    void setSearch({
+                      excludeMayContain: checked === true,
+                      page: null,
+                    });
+                  }}
+                />
+                {tAllergens('excludeMayContain')}
+              </Label>
+            ) : null}
+          </FacetGroup>
+
+          <FacetGroup
+            value="certifications"
+            title={t('certifications')}
+            options={facets.certifications.map((certification) => ({
+              value: certification.id,
+              label: certification.name,
+              count: certification.count,
+            }))}
+            selected={search.certifications}
+            onChange={(certifications) => {
+              void setSearch({ certifications, page: null });
+            }}
+          />
+
+          {facets.priceRange.max > facets.priceRange.min ? (
+            <AccordionItem value="priceRange">
+              <AccordionTrigger>{t('priceRange')}</AccordionTrigger>
+              <AccordionContent className="px-1">
+                <PriceRangeFilter
+                  // Remount when the URL or bounds change so the slider
+                  // follows back/forward navigation
+                  key={[
+                    search.minPrice,
+                    search.maxPrice,
+                    facets.priceRange.min,
+                    facets.priceRange.max,
+                  ].join('-')}
+                  bounds={facets.priceRange}
+                  minPrice={search.minPrice}
+                  maxPrice={search.maxPrice}
+                  onCommit={(minPrice, maxPrice) => {
+                    void setSearch({
+                      minPrice:
+                        minPrice > facets.priceRange.min ? minPrice : null,
+                      maxPrice:
+                        maxPrice < facets.priceRange.max ? maxPrice : null,
+                      page: null,
+                    });
+                  }}
+                />
+              </AccordionContent>
+            </AccordionItem>
+          ) : null}
+
+          <AccordionItem value="availability">
+            <AccordionTrigger>{t('availability')}</AccordionTrigger>
+            <AccordionContent>
+              <Label className="font-normal">
+                <Checkbox
+                  checked={search.inStock}
+                  onCheckedChange={(checked) => {
+                    void setSearch({ inStock: checked === true, page: null });
+                  }}
+                />
+                {t('inStock')}
+              </Label>
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+      ) : isError ? (
+        <div className="flex flex-col items-start gap-2 py-4" role="alert">
+          <p className="text-destructive text-sm">{tCommon('error')}</p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              void refetch();
+            }}
+          >
+            {tCommon('tryAgain')}
+          </Button>
+        </div>
+      ) : (
+        <FiltersSkeleton />
+      )}
+    </aside>
+  );
+}
+
+/**
+ * Multi-select facet as an accordion section
+ *
+ * Options without results are disabled unless they are already selected
+ * (so they can always be deselected).
+ */
+function FacetGroup<T extends string | number>({
+  value,
+  title,
+  options,
+  selected,
+  onChange,
+  children,
+}: {
+  value: (typeof SECTIONS)[number];
+  title: string;
+  options: Array<FacetGroupOption<T>>;
+  selected: T[];
+  onChange: (selected: T[]) => void;
+  /** Extra controls below the options */
+  children?: React.ReactNode;
+}) {
+  if (options.length === 0) {
+    return null;
+  }
+
+  return (
+    <AccordionItem value={value}>
+      <AccordionTrigger>{title}</AccordionTrigger>
+      <AccordionContent>
+        <fieldset className="flex flex-col gap-3">
+          <legend className="sr-only">{title}</legend>
+          {options.map((option) => {
+            const checked = selected.includes(option.value);
+
+            return (
+              <Label key={option.value} className="w-full font-normal">
+                <Checkbox
+                  checked={checked}
+                  disabled={option.count === 0 && !checked}
+                  onCheckedChange={(state) => {
+                    onChange(
+                      state === true
+                        ? [...selected, option.value]
+                        : selected.filter((item) => item !== option.value)
+                    );
+                  }}
+                />
+                <span className="flex-1">{option.label}</span>
+                <span className="text-muted-foreground text-xs tabular-nums">
+                  {option.count}
+                </span>
+              </Label>
+            );
+          })}
+          {children}
+        </fieldset>
+      </AccordionContent>
+    </AccordionItem>
+  );
+}
+
+/**
+ * Price range slider
+ *
+ * Keeps the dragged value locally and only commits it (to the URL)
+ * when the user releases the thumb.
+ */
+function PriceRangeFilter({
+  bounds,
+  minPrice,
+  maxPrice,
+  onCommit,
+}: {
+  bounds: { min: number; max: number };
+  minPrice: number | null;
+  maxPrice: number | null;
+  onCommit: (minPrice: number, maxPrice: number) => void;
+}) {
+  const t = useTranslations('Product');
+  const format = useFormatter();
+  const labelId = useId();
+  const [value, setValue] = useState([
+    minPrice ?? bounds.min,
+    maxPrice ?? bounds.max,
+  ]);
+
+  const formatPrice = (price: number) =>
+    format.number(price, {
+      style: 'currency',
+      currency: 'EUR',
+      maximumFractionDigits: 0,
+    });
+
+  return (
+    <div className="flex flex-col gap-3">
+      <span id={labelId} className="sr-only">
+        {t('priceRange')}
+      </span>
+      <Slider
+        min={bounds.min}
+        max={bounds.max}
+        step={1}
+        value={value}
+        onValueChange={setValue}
+        onValueCommit={([min = bounds.min, max = bounds.max]) => {
+          onCommit(min, max);
+        }}
+        aria-labelledby={labelId}
+      />
+      <p className="text-muted-foreground flex justify-between text-sm">
+        <span>{formatPrice(value[0] ?? bounds.min)}</span>
+        <span>{formatPrice(value[1] ?? bounds.max)}</span>
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Loading state for the filter sidebar
+ */
+function FiltersSkeleton() {
+  return (
+    <div className="flex flex-col gap-4 py-4">
+      {Array.from({ length: 4 }, (_, index) => (
+        <Skeleton key={index} className="h-24 w-full" />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { Product } from '@/lib/api/foodbook';
+
+import { ProductCard } from './product-card';
+
+interface ProductGridProps {
+  products: Product[] | undefined;
+  isPending: boolean;
+  isError: boolean;
+  /**
+   * Whether newer results are being fetched (marks the grid busy)
+   */
+  isFetching: boolean;
+  onRetry: () => void;
+}
+
+/**
+ * Product Grid Component
+ *
+ * Result grid of product cards, including the loading, error (with
+ * retry) and empty states of the query that feeds it.
+ *
+ * Accessibility:
+ * - List semantics for the results
+ * - aria-busy while fetching
+ * - Errors announced via role="alert"
+ */
+export function ProductGrid({
+  products,
+  isPending,
+  isError,
+  isFetching,
+  onRetry,
+}: ProductGridProps) {
+  const t = useTranslations('Product');
+  const tCommon = useTranslations('Common');
+
+  if (isPending) {
+    return <ProductGridSkeleton />;
+  }
+
+  if (isError) {
+    return (
+      <div className="flex flex-col items-start gap-2" role="alert">
+        <p className="text-destructive">{tCommon('error')}</p>
+        <Button variant="outline" size="sm" onClick={onRetry}>
+          {tCommon('tryAgain')}
+        </Button>
+      </div>
+    );
+  }
+
+  if (products === undefined || products.length === 0) {
+    return <p className="text-muted-foreground">{t('noProductsFound')}</p>;
+  }
+
+  return (
+    <ul
+      className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-3"
+      role="list"
+      aria-busy={isFetching}
+    >
+      {products.map((product) => (
+        <li key={product.id} className="flex">
+          <ProductCard product={product} />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Loading state matching the product grid
+ */
+export function ProductGridSkeleton() {
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-3">
+      {Array.from({ length: 6 }, (_, index) => (
+        <Skeleton key={index} className="aspect-[3/4] rounded-xl" />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+import { useTranslations } from 'next-intl';
+
+import { Button } from '@/components/ui/button';
+
+interface ProductLoadMoreProps {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  onLoadMore: () => void;
+}
+
+/**
+ * Distance before the end of the list at which the next page is loaded
+ */
+const PRELOAD_MARGIN = '600px 0px';
+
+/**
+ * Product Load More Component
+ *
+ * Infinite scroll trigger for product result lists. Loads the next page
+ * when the end of the list comes into view (IntersectionObserver) and
+ * always shows a "load more" button as fallback.
+ *
+ * Accessibility:
+ * - Button fallback for keyboard and screen reader users, who never
+ *   "scroll" the sentinel into view
+ * - Loading state announced via aria-live
+ */
+export function ProductLoadMore({
+  hasNextPage,
+  isFetchingNextPage,
+  onLoadMore,
+}: ProductLoadMoreProps) {
+  const t = useTranslations('Common');
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Callers pass inline callbacks; read the latest one without
+  // recreating the observer on every render
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  });
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage || isFetchingNextPage) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry?.isIntersecting) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: PRELOAD_MARGIN }
+    );
+    observer.observe(sentinel);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [hasNextPage, isFetchingNextPage]);
+
+  if (!hasNextPage) {
+    return null;
+  }
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center">
+      <Button
+        variant="outline"
+        disabled={isFetchingNextPage}
+        onClick={onLoadMore}
+      >
+        <span aria-live="polite">
+          {isFetchingNextPage ? t('loading') : t('loadMore')}
+        </span>
+      </Button>
+    </div>
+  );
+}
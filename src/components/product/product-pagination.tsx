@@ -0,0 +1,70 @@
+'use client';
+
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+
+import { Button } from '@/components/ui/button';
+
+interface ProductPaginationProps {
+  /**
+   * Current page (1-based)
+   */
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}
+
+/**
+ * Product Pagination Component
+ *
+ * Previous/next pagination for product result lists.
+ *
+ * Accessibility:
+ * - nav landmark with aria-label
+ * - Disabled buttons at the first/last page
+ * - Current position announced as text
+ */
+export function ProductPagination({
+  page,
+  totalPages,
+  onPageChange,
+}: ProductPaginationProps) {
+  const t = useTranslations('Common');
+
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  return (
+    <nav
+      className="flex items-center justify-center gap-4"
+      aria-label={t('pagination')}
+    >
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={page <= 1}
+        onClick={() => {
+          onPageChange(page - 1);
+        }}
+      >
+        <ChevronLeft aria-hidden="true" />
+        {t('previous')}
+      </Button>
+      <p className="text-muted-foreground text-sm" aria-current="page">
+        {t('page')} {page} {t('of')} {totalPages}
+      </p>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={page >= totalPages}
+        onClick={() => {
+          onPageChange(page + 1);
+        }}
+      >
+        {t('next')}
+        <ChevronRight aria-hidden="true" />
+      </Button>
+    </nav>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useId } from 'react';
+
+import { LayoutGrid, ListEnd, Search } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+
+import { AllergenMatrixSelectionBar } from '@/components/allergen-matrix/allergen-matrix-selection-bar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useProductSearchState } from '@/lib/hooks/use-product-search';
+import { useInfiniteProducts, useProducts } from '@/lib/hooks/use-products';
+import { useScrollRestoration } from '@/lib/hooks/use-scroll-restoration';
+import {
+  serializeProductSearchState,
+  toProductSearchParams,
+  type ProductViewMode,
+} from '@/lib/search/product-search-params';
+
+import { ProductFilters } from './product-filters';
+import { ProductGrid } from './product-grid';
+import { ProductLoadMore } from './product-load-more';
+import { ProductPagination } from './product-pagination';
+import { ProductSortSelect } from './product-sort-select';
+
+/**
+ * Product Search Component
+ *
+ * Catalog search with keyword, filters, sorting and pagination. The entire
+ * search state lives in the URL (nuqs), the results come from useProducts
+ * keyed by productKeys.list(params) and are prefetched by the server page.
+ *
+ * In the infinite view (`?view=infinite`) results come from
+ * useInfiniteProducts instead; loaded pages and the scroll position are
+ * restored when navigating back from a product.
+ *
+ * Accessibility:
+ * - Search landmark with labelled input
+ * - Results count announced via aria-live
+ * - aria-busy on the result grid while fetching
+ */
+export function ProductSearch() {
+  const t = useTranslations('Product');
+  const tCommon = useTranslations('Common');
+  const searchInputId = useId();
+  const sortLabelId = useId();
+  const [search, setSearch] = useProductSearchState();
+  const infinite = search.view === 'infinite';
+  const pagedQuery = useProducts(toProductSearchParams(search), {
+    enabled: !infinite,
+  });
+  const infiniteQuery = useInfiniteProducts(
+    toProductSearchParams({ ...search, page: 1 }),
+    { enabled: infinite }
+  );
+  const { isPending, isError, isFetching, refetch } = infinite
+    ? infiniteQuery
+    : pagedQuery;
+  const products = infinite
+    ? infiniteQuery.data?.pages.flatMap((page) => page.products)
+    : pagedQuery.data?.products;
+  const total = infinite
+    ? infiniteQuery.data?.pages[0]?.total
+    : pagedQuery.data?.total;
+
+  useScrollRestoration(
+    serializeProductSearchState('/product', search),
+    infinite && infiniteQuery.data !== undefined
+  );
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const keyword = new FormData(event.currentTarget).get('q');
+    void setSearch({
+      q: typeof keyword === 'string' ? keyword : null,
+      page: null,
+    });
+  };
+
+  const handlePageChange = (page: number) => {
+    void setSearch({ page });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleViewChange = (view: ProductViewMode) => {
+    void setSearch({ view, page: null });
+  };
+
+  const from =
+    !infinite && pagedQuery.data
+      ? pagedQuery.data.page * pagedQuery.data.pageSize + 1
+      : 1;
+  const to = from + (products?.length ?? 0) - 1;
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex flex-col gap-4">
+        <h1 className="text-3xl font-bold">{t('title')}</h1>
+        <div role="search">
+          <form className="flex max-w-2xl gap-2" onSubmit={handleSubmit}>
+            <Label htmlFor={searchInputId} className="sr-only">
+              {tCommon('search')}
+            </Label>
+            <Input
+              // Reset the uncontrolled input when the URL changes
+              key={search.q}
+              id={searchInputId}
+              name="q"
+              type="search"
+              defaultValue={search.q}
+              placeholder={t('searchPlaceholder')}
+            />
+            <Button type="submit">
+              <Search aria-hidden="true" />
+              {tCommon('search')}
+            </Button>
+          </form>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-8 lg:grid-cols-[16rem_1fr]">
+        <ProductFilters />
+
+        <section className="flex flex-col gap-6" aria-labelledby={sortLabelId}>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div aria-live="polite" className="text-sm">
+              {total !== undefined ? (
+                <>
+                  <p className="font-medium">
+                    {t('resultsCount', { count: total })}
+                  </p>
+                  {total > 0 ? (
+                    <p className="text-muted-foreground">
+                      {t('showingResults', { from, to, total })}
+                    </p>
+                  ) : null}
+                </>
+              ) : null}
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+              <div
+                className="flex items-center gap-1"
+                role="group"
+                aria-label={t('resultsView')}
+              >
+                <Button
+                  variant={infinite ? 'ghost' : 'secondary'}
+                  size="icon"
+                  aria-label={t('pagedView')}
+                  aria-pressed={!infinite}
+                  onClick={() => {
+                    handleViewChange('pages');
+                  }}
+                >
+                  <LayoutGrid aria-hidden="true" />
+                </Button>
+                <Button
+                  variant={infinite ? 'secondary' : 'ghost'}
+                  size="icon"
+                  aria-label={t('infiniteView')}
+                  aria-pressed={infinite}
+                  onClick={() => {
+                    handleViewChange('infinite');
+                  }}
+                >
+                  <ListEnd aria-hidden="true" />
+                </Button>
+              </div>
+              <ProductSortSelect
+                labelId={sortLabelId}
+                value={search.sort}
+                onValueChange={(sort) => {
+                  void setSearch({ sort, page: null });
+                }}
+              />
+            </div>
+          </div>
+
+          <AllergenMatrixSelectionBar />
+
+          <ProductGrid
+            products={products}
+            isPending={isPending}
+            isError={isError}
+            isFetching={isFetching}
+            onRetry={() => {
+              void refetch();
+            }}
+          />
+
+          {infinite ? (
+            <ProductLoadMore
+              hasNextPage={infiniteQuery.hasNextPage}
+              isFetchingNextPage={infiniteQuery.isFetchingNextPage}
+              onLoadMore={() => {
+                void infiniteQuery.fetchNextPage();
+              }}
+            />
+          ) : pagedQuery.data ? (
+            <ProductPagination
+              page={search.page}
+              totalPages={pagedQuery.data.totalPages}
+              onPageChange={handlePageChange}
+            />
+          ) : null}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import Image from 'next/image';
+
+import { useFormatter, useTranslations } from 'next-intl';
+
+import { FavoriteToggle } from '@/components/lists/favorite-toggle';
+import { SaveToListMenu } from '@/components/lists/save-to-list-menu';
+import { Badge } from '@/components/ui/badge';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Link } from '@/i18n/routing';
+import type { ProductSheet, ProductSheetProperty } from '@/lib/api/foodbook';
+import { useProduct } from '@/lib/hooks/use-products';
+
+import { AllergenList } from './allergen-list';
+import { NutritionTable } from './nutrition-table';
+
+interface ProductSheetViewProps {
+  /**
+   * Product ID (the sheet is expected to be prefetched on the server)
+   */
+  id: number;
+}
+
+/**
+ * Product sheet sections, in tab order
+ */
+const SECTIONS = [
+  'productInfo',
+  'specifications',
+  'ingredients',
+  'allergens',
+  'nutritionalInfo',
+  'packaging',
+  'storage',
+] as const;
+
+type Section = (typeof SECTIONS)[number];
+
+/**
+ * Product Sheet View
+ *
+ * Client-side product detail view. Reads the product sheet from the
+ * TanStack Query cache (hydrated by the server page) and renders the
+ * product header and a tab per product sheet section.
+ *
+ * Accessibility:
+ * - Breadcrumb navigation
+ * - Keyboard navigable tabs via Radix UI
+ * - Definition lists for label/value data
+ */
+export function ProductSheetView({ id }: ProductSheetViewProps) {
+  const t = useTranslations('Product');
+  const tNavigation = useTranslations('Navigation');
+  const tCommon = useTranslations('Common');
+  const format = useFormatter();
+  const { data: product, isPending, isError } = useProduct(id);
+
+  if (isPending) {
+    return <ProductSheetSkeleton />;
+  }
+
+  if (isError) {
+    return (
+      <p className="text-destructive" role="alert">
+        {tCommon('error')}
+      </p>
+    );
+  }
+
+  const image = product.images[0] ?? product.image;
+
+  return (
+    <div className="flex flex-col gap-8">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link href="/">{tNavigation('home')}</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link href="/product">{tNavigation('products')}</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>{product.name}</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="grid grid-cols-1 gap-8 md:grid-cols-2">
+        <div className="bg-muted relative aspect-square overflow-hidden rounded-xl border">
+          <Image
+            src={image}
+            alt={product.name}
+            fill
+            priority
+            sizes="(min-width: 768px) 50vw, 100vw"
+            className="object-contain"
+          />
+        </div>
+
+        <div className="flex flex-col gap-4">
+          <Link
+            href={{ pathname: '/brand/[id]', params: { id: product.brandId } }}
+            className="text-muted-foreground hover:text-foreground w-fit text-sm font-medium transition-colors"
+          >
+            {product.brand}
+          </Link>
+          <div className="flex items-start justify-between gap-4">
+            <h1 className="text-3xl font-bold">{product.name}</h1>
+            <FavoriteToggle
+              productId={product.id}
+              productName={product.name}
+              className="shrink-0"
+            />
+          </div>
+          <p className="text-muted-foreground text-sm">
+            {t('articleNumber')}: {product.articleNumber}
+          </p>
+          <p className="text-2xl font-semibold">
+            {format.number(product.price, {
+              style: 'currency',
+              currency: 'EUR',
+            })}
+          </p>
+          <Badge variant={product.inStock ? 'secondary' : 'outline'}>
+            {product.inStock ? t('inStock') : t('outOfStock')}
+          </Badge>
+          {product.description ? (
+            <p className="leading-relaxed">{product.description}</p>
+          ) : null}
+          <SaveToListMenu productId={product.id} productName={product.name} />
+        </div>
+      </div>
+
+      <Tabs defaultValue={SECTIONS[0]}>
+        <TabsList className="h-auto w-full flex-wrap justify-start">
+          {SECTIONS.map((section) => (
+            <TabsTrigger key={section} value={section} className="flex-none">
+              {t(section)}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        {SECTIONS.map((section) => (
+          <TabsContent key={section} value={section} className="pt-4">
+            <h2 className="sr-only">{t(section)}</h2>
+            <ProductSheetSection section={section} product={product} />
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  );
+}
+
+/**
+ * Content of a single product sheet tab
+ */
+function ProductSheetSection({
+  section,
+  product,
+}: {
+  section: Section;
+  product: ProductSheet;
+}) {
+  const t = useTranslations('Product');
+
+  switch (section) {
+    case 'productInfo':
+      return (
+        <PropertyList
+          properties={[
+            { label: t('brand'), value: product.brand },
+            { label: t('articleNumber'), value: product.articleNumber },
+            {
+              label: t('availability'),
+              value: product.inStock ? t('inStock') : t('outOfStock'),
+            },
+          ]}
+        />
+      );
+    case 'specifications':
+      return <PropertyList properties={product.specifications} />;
+    case 'ingredients':
+      return <TextSection text={product.ingredients} />;
+    case 'allergens':
+      return product.allergens.length > 0 ? (
+        <AllergenList allergens={product.allergens} />
+      ) : (
+        <NoInformation />
+      );
+    case 'nutritionalInfo':
+      return product.nutritionalInfo.nutrients.length > 0 ? (
+        <NutritionTable nutrition={product.nutritionalInfo} />
+      ) : (
+        <NoInformation />
+      );
+    case 'packaging':
+      return <PropertyList properties={product.packaging} />;
+    case 'storage':
+      return <TextSection text={product.storage} />;
+  }
+}
+
+/**
+ * Label/value pairs as a definition list
+ */
+function PropertyList({ properties }: { properties: ProductSheetProperty[] }) {
+  if (properties.length === 0) {
+    return <NoInformation />;
+  }
+
+  return (
+    <dl className="grid max-w-xl grid-cols-[auto_1fr] gap-x-8 gap-y-2 text-sm">
+      {properties.map((property) => (
+        <div key={property.label} className="contents">
+          <dt className="text-muted-foreground">{property.label}</dt>
+          <dd>{property.value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+/**
+ * Free text section (ingredients, storage)
+ */
+function TextSection({ text }: { text: string }) {
+  if (!text) {
+    return <NoInformation />;
+  }
+
+  return (
+    <p className="max-w-prose leading-relaxed whitespace-pre-line">{text}</p>
+  );
+}
+
+function NoInformation() {
+  const t = useTranslations('Product');
+
+  return <p className="text-muted-foreground text-sm">{t('noInformation')}</p>;
+}
+
+/**
+ * Loading state matching the product sheet layout
+ */
+function ProductSheetSkeleton() {
+  const tCommon = useTranslations('Common');
+
+  return (
+    <div className="flex flex-col gap-8" aria-busy="true">
+      <span className="sr-only">{tCommon('loading')}</span>
+      <Skeleton className="h-5 w-64" />
+      <div className="grid grid-cols-1 gap-8 md:grid-cols-2">
+        <Skeleton className="aspect-square rounded-xl" />
+        <div className="flex flex-col gap-4">
+          <Skeleton className="h-4 w-32" />
+          <Skeleton className="h-9 w-3/4" />
+          <Skeleton className="h-4 w-48" />
+          <Skeleton className="h-8 w-24" />
+        </div>
+      </div>
+      <Skeleton className="h-9 w-full" />
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  PRODUCT_SORT_OPTIONS,
+  type ProductSortOption,
+} from '@/lib/api/foodbook';
+
+interface ProductSortSelectProps {
+  /**
+   * ID for the visible label, e.g. to label the surrounding results
+   */
+  labelId: string;
+  value: ProductSortOption;
+  onValueChange: (value: ProductSortOption) => void;
+}
+
+/**
+ * Translation keys for the sort options
+ */
+const SORT_LABEL_KEYS = {
+  relevance: 'sortRelevance',
+  name_asc: 'sortNameAsc',
+  name_desc: 'sortNameDesc',
+  price_asc: 'sortPriceAsc',
+  price_desc: 'sortPriceDesc',
+} as const satisfies Record<ProductSortOption, string>;
+
+/**
+ * Product Sort Select Component
+ *
+ * Labelled sort order select for product result lists.
+ */
+export function ProductSortSelect({
+  labelId,
+  value,
+  onValueChange,
+}: ProductSortSelectProps) {
+  const t = useTranslations('Product');
+
+  return (
+    <div className="flex items-center gap-2">
+      <span id={labelId} className="text-sm font-medium">
+        {t('sortBy')}
+      </span>
+      <Select
+        value={value}
+        onValueChange={(option) => {
+          onValueChange(option as ProductSortOption);
+        }}
+      >
+        <SelectTrigger aria-labelledby={labelId}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PRODUCT_SORT_OPTIONS.map((option) => (
+            <SelectItem key={option} value={option}>
+              {t(SORT_LABEL_KEYS[option])}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
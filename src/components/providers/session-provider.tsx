@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+import { useQueryClient } from '@tanstack/react-query';
+
+import { authKeys } from '@/lib/api/query-keys';
+import {
+  invalidateUserQueries,
+  useSession,
+  type Session,
+} from '@/lib/hooks/use-session';
+
+interface SessionProviderProps {
+  /**
+   * Session rendered on the server
+   */
+  session: Session | null;
+  children: React.ReactNode;
+}
+
+/**
+ * Session Provider
+ *
+ * Hydrates the session query (useSession, useUser) with the session
+ * rendered on the server, and updates it whenever the server renders a
+ * new one (login, logout, renewal). When the user changes, all
+ * user-specific queries are invalidated.
+ *
+ * Must be rendered inside QueryProvider.
+ */
+export function SessionProvider({ session, children }: SessionProviderProps) {
+  const queryClient = useQueryClient();
+
+  // Seed the cache before children read the session on the first render
+  useState(() => queryClient.setQueryData(authKeys.session(), session));
+
+  useEffect(() => {
+    queryClient.setQueryData(authKeys.session(), session);
+  }, [queryClient, session]);
+
+  const { data } = useSession();
+  const userId = data?.user.id ?? null;
+  const previousUserId = useRef(userId);
+
+  useEffect(() => {
+    if (data === undefined || previousUserId.current === userId) {
+      return;
+    }
+
+    previousUserId.current = userId;
+    void invalidateUserQueries(queryClient);
+  }, [data, queryClient, userId]);
+
+  return children;
+}
@@ -0,0 +1,548 @@
+import {
+  createElement,
+  Fragment,
+  type ComponentProps,
+  type ReactNode,
+} from 'react';
+
+import Image from 'next/image';
+
+import { type ChildNode, type Element, isTag, isText } from 'domhandler';
+import { parseDocument } from 'htmlparser2';
+
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { locales, type Locale } from '@/i18n/config';
+import { Link } from '@/i18n/routing';
+import { isInternalUrl, toRelativePath } from '@/lib/api/wordpress';
+import { sanitizeUrl } from '@/lib/sanitize-url';
+import { cn } from '@/lib/utils';
+
+interface WordPressContentProps {
+  /**
+   * Rendered HTML from WordPress (`content.rendered`)
+   */
+  html: string;
+  className?: string;
+}
+
+/**
+ * Elements rendered as-is (with their allowed attributes), with the
+ * classes that style them. Unknown elements are unwrapped: their content
+ * is kept, the element itself is dropped.
+ */
+const ALLOWED_ELEMENTS: Record<string, string> = {
+  p: 'leading-relaxed',
+  br: '',
+  hr: 'my-4 border-t',
+  strong: 'font-semibold',
+  b: 'font-semibold',
+  em: '',
+  i: '',
+  u: '',
+  s: '',
+  sub: '',
+  sup: '',
+  small: 'text-sm',
+  mark: '',
+  abbr: 'underline decoration-dotted',
+  cite: '',
+  code: 'bg-muted rounded px-1 font-mono text-sm',
+  pre: 'bg-muted overflow-x-auto rounded-lg p-4 font-mono text-sm',
+  kbd: 'bg-muted rounded border px-1 font-mono text-sm',
+  blockquote: 'border-l-4 pl-4 italic',
+  q: '',
+  ul: 'list-disc space-y-1 pl-6',
+  ol: 'list-decimal space-y-1 pl-6',
+  li: '',
+  dl: 'grid grid-cols-[auto_1fr] gap-x-8 gap-y-2',
+  dt: 'font-medium',
+  dd: '',
+  figure: 'flex flex-col gap-2',
+  figcaption: 'text-muted-foreground text-center text-sm',
+  details: 'rounded-lg border p-4',
+  summary: 'cursor-pointer font-medium',
+};
+
+/**
+ * Elements removed together with their content
+ */
+const REMOVED_ELEMENTS = new Set([
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'iframe',
+  'frame',
+  'frameset',
+  'object',
+  'embed',
+  'applet',
+  'form',
+  'input',
+  'button',
+  'select',
+  'textarea',
+  'svg',
+  'math',
+  'link',
+  'meta',
+  'base',
+  'head',
+  'title',
+]);
+
+/**
+ * Heading levels; `h1` is demoted, the page title is the only `h1`
+ */
+const HEADINGS: Record<string, 'h2' | 'h3' | 'h4' | 'h5' | 'h6'> = {
+  h1: 'h2',
+  h2: 'h2',
+  h3: 'h3',
+  h4: 'h4',
+  h5: 'h5',
+  h6: 'h6',
+};
+
+const HEADING_CLASSES = {
+  h2: 'mt-6 text-2xl font-semibold',
+  h3: 'mt-4 text-xl font-semibold',
+  h4: 'mt-4 text-lg font-semibold',
+  h5: 'font-semibold',
+  h6: 'font-semibold',
+};
+
+/**
+ * Table structure elements; whitespace between them is not allowed as
+ * text in React
+ */
+const TABLE_STRUCTURE = new Set(['table', 'thead', 'tbody', 'tfoot', 'tr']);
+
+/**
+ * Paths on the WordPress host that are files, not pages
+ */
+const WORDPRESS_FILE_PATH = /^\/wp-(content|includes|admin)\//;
+
+/**
+ * Path of the WordPress media library, the only images allowed for
+ * optimization (`images.remotePatterns` in next.config.ts)
+ */
+const WORDPRESS_UPLOADS_PATH = '/wp-content/uploads/';
+
+/**
+ * Image sizes hint for content images (max width of the content column)
+ */
+const IMAGE_SIZES = '(min-width: 768px) 48rem, 100vw';
+
+interface RenderContext {
+  /**
+   * Heading IDs used so far, to keep anchors unique
+   */
+  headingIds: Set<string>;
+}
+
+/**
+ * WordPress Content Component
+ *
+ * Server-side renderer for WordPress HTML. The HTML is parsed and turned
+ * into React elements against an allowlist, so scripts, event handlers,
+ * inline styles and unsafe URLs never reach the page. On the way:
+ * - Internal links become locale-aware `Link`s (client-side navigation)
+ * - Images from the WordPress host are served through next/image
+ * - Headings get an `id` and an anchor link
+ * - Tables use the Table component styles
+ *
+ * Accessibility:
+ * - Heading hierarchy below the page `h1`
+ * - Heading anchors are a mouse convenience, hidden from assistive tech
+ * - External links open in a new tab with rel="noopener noreferrer"
+ */
+export function WordPressContent({ html, className }: WordPressContentProps) {
+  const document = parseDocument(html);
+  const context: RenderContext = { headingIds: new Set() };
+
+  return (
+    <div className={cn('flex flex-col gap-4', className)}>
+      {renderNodes(document.children, context)}
+    </div>
+  );
+}
+
+function renderNodes(
+  nodes: ChildNode[],
+  context: RenderContext,
+  parent?: string
+): ReactNode[] {
+  return nodes.map((node, index) => renderNode(node, index, context, parent));
+}
+
+function renderNode(
+  node: ChildNode,
+  key: number,
+  context: RenderContext,
+  parent?: string
+): ReactNode {
+  if (isText(node)) {
+    return parent !== undefined &&
+      TABLE_STRUCTURE.has(parent) &&
+      node.data.trim() === ''
+      ? null
+      : node.data;
+  }
+
+  // Comments, CDATA and processing instructions are dropped
+  if (!isTag(node)) {
+    return null;
+  }
+
+  const name = node.name.toLowerCase();
+
+  if (REMOVED_ELEMENTS.has(name)) {
+    return null;
+  }
+
+  const heading = HEADINGS[name];
+  if (heading !== undefined) {
+    return renderHeading(node, heading, key, context);
+  }
+
+  switch (name) {
+    case 'a':
+      return renderLink(node, key, context);
+    case 'img':
+      return renderImage(node, key);
+    case 'table':
+      return renderTable(node, key, context);
+  }
+
+  const children = renderNodes(node.children, context, name);
+  const elementClassName = ALLOWED_ELEMENTS[name];
+
+  if (elementClassName === undefined) {
+    // Not allowed: keep the content only
+    return <Fragment key={key}>{children}</Fragment>;
+  }
+
+  const props = {
+    key,
+    className: elementClassName || undefined,
+    ...getAttributes(node, name),
+  };
+
+  return name === 'br' || name === 'hr'
+    ? createElement(name, props)
+    : createElement(name, props, ...children);
+}
+
+/**
+ * Allowed attributes per element, mapped to React props
+ */
+function getAttributes(node: Element, name: string) {
+  const { attribs } = node;
+
+  switch (name) {
+    case 'abbr':
+      return attribs['title'] !== undefined ? { title: attribs['title'] } : {};
+    case 'ol': {
+      const start = Number(attribs['start']);
+      return {
+        ...(Number.isInteger(start) && { start }),
+        ...('reversed' in attribs && { reversed: true }),
+      };
+    }
+    case 'blockquote':
+    case 'q': {
+      const cite = sanitizeUrl(attribs['cite']);
+      return cite !== null ? { cite } : {};
+    }
+    case 'details':
+      return 'open' in attribs ? { open: true } : {};
+    default:
+      return {};
+  }
+}
+
+function renderHeading(
+  node: Element,
+  Tag: 'h2' | 'h3' | 'h4' | 'h5' | 'h6',
+  key: number,
+  context: RenderContext
+) {
+  const id = uniqueId(
+    slugify(node.attribs['id'] ?? '') ||
+      slugify(getTextContent(node)) ||
+      'section',
+    context.headingIds
+  );
+
+  return (
+    <Tag
+      key={key}
+      id={id}
+      className={cn('group scroll-mt-20', HEADING_CLASSES[Tag])}
+    >
+      {renderNodes(node.children, context, Tag)}
+      <a
+        href={`#${id}`}
+        className="text-muted-foreground ml-2 opacity-0 transition-opacity group-hover:opacity-100"
+        aria-hidden="true"
+        tabIndex={-1}
+      >
+        #
+      </a>
+    </Tag>
+  );
+}
+
+function renderLink(node: Element, key: number, context: RenderContext) {
+  const children = renderNodes(node.children, context, 'a');
+  const href = sanitizeUrl(node.attribs['href']);
+  const title = node.attribs['title'];
+  const className = 'text-primary underline underline-offset-4';
+
+  if (href === null) {
+    return <Fragment key={key}>{children}</Fragment>;
+  }
+
+  if (href.startsWith('#')) {
+    return (
+      <a key={key} href={href} title={title} className={className}>
+        {children}
+      </a>
+    );
+  }
+
+  const internal = toInternalHref(href);
+  if (internal !== null) {
+    return (
+      <Link
+        key={key}
+        // CMS paths are not known routes at compile time; the catch-all
+        // route resolves them
+        href={internal.href as ComponentProps<typeof Link>['href']}
+        {...(internal.locale !== undefined && { locale: internal.locale })}
+        title={title}
+        className={className}
+      >
+        {children}
+      </Link>
+    );
+  }
+
+  return (
+    <a
+      key={key}
+      href={href}
+      title={title}
+      className={className}
+      {...(/^(https?:)?[/\\]{2}/i.test(href) && {
+        target: '_blank',
+        rel: 'noopener noreferrer',
+      })}
+    >
+      {children}
+    </a>
+  );
+}
+
+function renderImage(node: Element, key: number) {
+  const src = sanitizeUrl(node.attribs['src']);
+  const alt = node.attribs['alt'] ?? '';
+  const width = Number(node.attribs['width']);
+  const height = Number(node.attribs['height']);
+
+  if (src === null || !/^(https?:)?\/\//i.test(src)) {
+    return null;
+  }
+
+  // Only uploads on the WordPress host are configured for image
+  // optimization, and next/image needs the intrinsic size to reserve space
+  if (isOptimizableImage(src) && width > 0 && height > 0) {
+    return (
+      <Image
+        key={key}
+        src={src}
+        alt={alt}
+        width={width}
+        height={height}
+        sizes={IMAGE_SIZES}
+        className="h-auto max-w-full rounded-lg"
+      />
+    );
+  }
+
+  return (
+    // eslint-disable-next-line @next/next/no-img-element -- external or unsized CMS image
+    <img
+      key={key}
+      src={src}
+      alt={alt}
+      loading="lazy"
+      decoding="async"
+      className="h-auto max-w-full rounded-lg"
+    />
+  );
+}
+
+/**
+ * Whether an image URL matches the optimized remote pattern (https, the
+ * WordPress host and its uploads path)
+ */
+function isOptimizableImage(src: string): boolean {
+  if (!isInternalUrl(src)) {
+    return false;
+  }
+
+  const { protocol, pathname } = new URL(src);
+  return protocol === 'https:' && pathname.startsWith(WORDPRESS_UPLOADS_PATH);
+}
+
+function renderTable(node: Element, key: number, context: RenderContext) {
+  const renderSection = (child: ChildNode, index: number): ReactNode => {
+    if (!isTag(child)) {
+      return renderNode(child, index, context, 'table');
+    }
+
+    switch (child.name.toLowerCase()) {
+      case 'caption':
+        return (
+          <TableCaption key={index}>
+            {renderNodes(child.children, context, 'caption')}
+          </TableCaption>
+        );
+      case 'thead':
+        return (
+          <TableHeader key={index}>{child.children.map(renderRow)}</TableHeader>
+        );
+      case 'tbody':
+        return (
+          <TableBody key={index}>{child.children.map(renderRow)}</TableBody>
+        );
+      case 'tfoot':
+        return (
+          <TableFooter key={index}>{child.children.map(renderRow)}</TableFooter>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderRow = (row: ChildNode, index: number): ReactNode => {
+    if (!isTag(row) || row.name.toLowerCase() !== 'tr') {
+      return null;
+    }
+
+    return (
+      <TableRow key={index}>
+        {row.children.map((cell, cellIndex) => {
+          if (!isTag(cell)) {
+            return null;
+          }
+
+          const cellName = cell.name.toLowerCase();
+          if (cellName !== 'th' && cellName !== 'td') {
+            return null;
+          }
+
+          const Cell = cellName === 'th' ? TableHead : TableCell;
+          const colSpan = Number(cell.attribs['colspan']);
+          const rowSpan = Number(cell.attribs['rowspan']);
+          const scope = cell.attribs['scope'];
+
+          return (
+            <Cell
+              key={cellIndex}
+              className="whitespace-normal"
+              {...(colSpan > 1 && { colSpan })}
+              {...(rowSpan > 1 && { rowSpan })}
+              {...(cellName === 'th' &&
+                (scope === 'row' || scope === 'col') && { scope })}
+            >
+              {renderNodes(cell.children, context, cellName)}
+            </Cell>
+          );
+        })}
+      </TableRow>
+    );
+  };
+
+  // Rows directly inside <table> (no tbody): browsers insert a tbody, so
+  // render one to keep server and client markup equal
+  const directRows = node.children.filter(
+    (child) => isTag(child) && child.name.toLowerCase() === 'tr'
+  );
+
+  return (
+    <Table key={key}>
+      {node.children.map(renderSection)}
+      {directRows.length > 0 ? (
+        <TableBody>{directRows.map(renderRow)}</TableBody>
+      ) : null}
+    </Table>
+  );
+}
+
+/**
+ * Convert an internal WordPress URL into an app path (+ locale)
+ *
+ * @returns null for external URLs and WordPress files (uploads etc.)
+ */
+function toInternalHref(url: string): { href: string; locale?: Locale } | null {
+  if (!isInternalUrl(url)) {
+    return null;
+  }
+
+  const suffix = url.startsWith('/') ? '' : (/[?#].*$/.exec(url)?.[0] ?? '');
+  const path = toRelativePath(url);
+
+  if (WORDPRESS_FILE_PATH.test(path)) {
+    return null;
+  }
+
+  const [, prefix, rest = '/'] = /^\/([^/?#]+)(.*)$/.exec(path) ?? [];
+  const locale = locales.find((candidate) => candidate === prefix);
+  const localPath = locale !== undefined ? rest || '/' : path;
+
+  return {
+    // WordPress permalinks end with a slash, app routes do not
+    href: (localPath.replace(/\/+(?=$|[?#])/, '') || '/') + suffix,
+    ...(locale !== undefined && { locale }),
+  };
+}
+
+function getTextContent(node: ChildNode): string {
+  if (isText(node)) {
+    return node.data;
+  }
+  return isTag(node) ? node.children.map(getTextContent).join('') : '';
+}
+
+/**
+ * URL-safe anchor ID from a heading text, e.g. "Allergenen & dieet" →
+ * "allergenen-dieet"
+ */
+function slugify(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function uniqueId(id: string, used: Set<string>) {
+  let unique = id;
+  for (let index = 2; used.has(unique); index++) {
+    unique = `${id}-${String(index)}`;
+  }
+  used.add(unique);
+  return unique;
+}
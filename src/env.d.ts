@@ -15,8 +15,22 @@ declare namespace NodeJS {
     NEXT_PUBLIC_WP_API_URL: string;
     NEXT_PUBLIC_WEBAPI_API_URL: string;
 
-    // Authentication
-    JWT_SECRET: string;
+    // Authentication: session JWT verification (one of JWKS URL, JWKS
+    // file or secret is required in production)
+    JWT_JWKS_URL?: string;
+    JWT_JWKS_PATH?: string;
+    JWT_SECRET?: string;
+    JWT_ISSUER?: string;
+    /** Comma-separated accepted audiences */
+    JWT_AUDIENCE?: string;
+
+    // Optional: WordPress preview mode
+    WP_PREVIEW_SECRET?: string;
+    WP_PREVIEW_USERNAME?: string;
+    WP_PREVIEW_APPLICATION_PASSWORD?: string;
+
+    // Optional: WordPress revalidation webhook
+    WP_REVALIDATE_SECRET?: string;
 
     // Optional: Analytics
     NEXT_PUBLIC_GTM_ID?: string;
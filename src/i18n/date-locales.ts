@@ -0,0 +1,20 @@
+import {
+  de,
+  enGB,
+  fr,
+  nl,
+  type Locale as DateFnsLocale,
+} from 'date-fns/locale';
+
+import type { Locale } from './config';
+
+/**
+ * date-fns locale per application locale, for formatting dates with
+ * date-fns (e.g. `format(date, 'PPP', { locale: dateFnsLocales[locale] })`)
+ */
+export const dateFnsLocales: Record<Locale, DateFnsLocale> = {
+  nl,
+  en: enGB,
+  de,
+  fr,
+};
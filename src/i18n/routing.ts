@@ -25,6 +25,20 @@ export const routing = defineRouting({
 
     '/product/[id]': '/product/[id]',
 
+    '/compare': {
+      nl: '/vergelijken',
+      en: '/compare',
+      de: '/vergleichen',
+      fr: '/comparer',
+    },
+
+    '/allergen-matrix': {
+      nl: '/allergenenmatrix',
+      en: '/allergen-matrix',
+      de: '/allergenmatrix',
+      fr: '/matrice-allergenes',
+    },
+
     '/brand': {
       nl: '/merk',
       en: '/brand',
@@ -52,10 +66,15 @@ export const routing = defineRouting({
 
     '/login': '/login',
 
-    '/logout': '/logout',
-
     '/account': '/account',
 
+    '/list/[token]': {
+      nl: '/lijst/[token]',
+      en: '/list/[token]',
+      de: '/liste/[token]',
+      fr: '/liste/[token]',
+    },
+
     '/orders': '/orders',
 
     '/settings': '/settings',
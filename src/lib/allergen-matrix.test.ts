@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  toAllergenMatrix,
+  toAllergenMatrixCsv,
+  type AllergenMatrixLabels,
+} from './allergen-matrix';
+import { ALLERGEN_CODES } from './allergens';
+
+import type { Product } from './api/foodbook';
+
+function product(overrides: Partial<Product>): Product {
+  return {
+    id: 1,
+    name: 'Tomato soup',
+    brand: 'Soups Inc',
+    brandId: 7,
+    articleNumber: 'A-1',
+    description: '',
+    price: 0,
+    image: '',
+    inStock: true,
+    allergens: [],
+    ...overrides,
+  };
+}
+
+const labels: AllergenMatrixLabels = {
+  title: 'Allergens',
+  product: 'Product',
+  brand: 'Brand',
+  articleNumber: 'Article number',
+  allergens: Object.fromEntries(
+    ALLERGEN_CODES.map((code) => [code, code])
+  ) as AllergenMatrixLabels['allergens'],
+  mark: (allergen) =>
+    [allergen.level === 'contains' ? 'X' : '(X)', ...allergen.subtypes].join(
+      ' '
+    ),
+  legend: '',
+};
+
+/**
+ * CSV lines, split into fields (for fields without quoted commas)
+ */
+function toLines(csv: string): string[][] {
+  return csv.split('\r\n').map((line) => line.split(','));
+}
+
+describe('toAllergenMatrix', () => {
+  it('marks contains and may-contain, not free-from', () => {
+    const [row] = toAllergenMatrix([
+      product({
+        allergens: [
+          { code: 'gluten', level: 'contains', subtypes: ['wheat'] },
+          { code: 'milk', level: 'mayContain', subtypes: [] },
+          { code: 'eggs', level: 'freeFrom', subtypes: [] },
+        ],
+      }),
+    ]);
+
+    expect(Object.keys(row?.allergens ?? {})).toEqual(['gluten', 'milk']);
+  });
+});
+
+describe('toAllergenMatrixCsv', () => {
+  it('has a header and a row per product, in allergen order', () => {
+    const csv = toAllergenMatrixCsv(
+      toAllergenMatrix([
+        product({
+          allergens: [
+            { code: 'milk', level: 'mayContain', subtypes: [] },
+            { code: 'gluten', level: 'contains', subtypes: ['wheat'] },
+          ],
+        }),
+      ]),
+      labels
+    );
+    const [head, row] = toLines(csv);
+
+    expect(head).toEqual([
+      'Product',
+      'Brand',
+      'Article number',
+      ...ALLERGEN_CODES,
+    ]);
+    expect(row?.slice(0, 3)).toEqual(['Tomato soup', 'Soups Inc', 'A-1']);
+    expect(row?.[3 + ALLERGEN_CODES.indexOf('gluten')]).toBe('X wheat');
+    expect(row?.[3 + ALLERGEN_CODES.indexOf('milk')]).toBe('(X)');
+    expect(row?.[3 + ALLERGEN_CODES.indexOf('eggs')]).toBe('');
+  });
+
+  it('quotes fields with separators, quotes and line breaks', () => {
+    const csv = toAllergenMatrixCsv(
+      toAllergenMatrix([product({ name: 'Soup, "hot"', brand: 'Two\nlines' })]),
+      labels
+    );
+
+    expect(csv.split('\r\n')[1]).toMatch(/^"Soup, ""hot""","Two\nlines",A-1,/);
+  });
+
+  it.each(['=HYPERLINK("https://evil.test")', '+1', '-1', '@SUM(A1)'])(
+    'neutralizes the formula %s',
+    (name) => {
+      const csv = toAllergenMatrixCsv(
+        toAllergenMatrix([product({ name })]),
+        labels
+      );
+      const field = csv.split('\r\n')[1]?.split(/,(?=Soups Inc)/)[0];
+
+      expect(field?.replace(/^"|"$/g, '').replaceAll('""', '"')).toBe(
+        `'${name}`
+      );
+    }
+  );
+});
@@ -0,0 +1,226 @@
+/**
+ * Allergen matrix
+ *
+ * Products × EU-14 allergens overview (e.g. for a menu), as shown in the
+ * app and exported to CSV, XLSX and PDF. All exports are generated in the
+ * browser from the same localized table; the XLSX and PDF libraries are
+ * only loaded when exporting.
+ */
+
+import { ALLERGEN_CODES, type AllergenCode } from '@/lib/allergens';
+import type { Product, ProductAllergen } from '@/lib/api/foodbook';
+
+/**
+ * Matrix row: the marked allergens of a product
+ */
+export interface AllergenMatrixRow {
+  product: Product;
+  allergens: Partial<Record<AllergenCode, ProductAllergen>>;
+}
+
+/**
+ * Localized texts of an exported matrix
+ */
+export interface AllergenMatrixLabels {
+  title: string;
+  product: string;
+  brand: string;
+  articleNumber: string;
+  allergens: Record<AllergenCode, string>;
+  /** Mark of a declared allergen, including its sub-types */
+  mark: (allergen: ProductAllergen) => string;
+  /** Explanation of the marks (PDF) */
+  legend: string;
+}
+
+/**
+ * Matrix as header and text rows, ready to export
+ */
+interface AllergenMatrixTable {
+  head: string[];
+  body: string[][];
+}
+
+export type AllergenMatrixFormat = 'csv' | 'xlsx' | 'pdf';
+
+/**
+ * Build the matrix rows, keeping the order of the products
+ *
+ * Only contains and may-contain are marked; free-from and undeclared
+ * allergens are left empty.
+ */
+export function toAllergenMatrix(products: Product[]): AllergenMatrixRow[] {
+  return products.map((product) => ({
+    product,
+    allergens: Object.fromEntries(
+      product.allergens
+        .filter((allergen) => allergen.level !== 'freeFrom')
+        .map((allergen) => [allergen.code, allergen])
+    ),
+  }));
+}
+
+/**
+ * Convert matrix rows to a localized text table
+ */
+function toTable(
+  rows: AllergenMatrixRow[],
+  labels: AllergenMatrixLabels
+): AllergenMatrixTable {
+  return {
+    head: [
+      labels.product,
+      labels.brand,
+      labels.articleNumber,
+      ...ALLERGEN_CODES.map((code) => labels.allergens[code]),
+    ],
+    body: rows.map(({ product, allergens }) => [
+      product.name,
+      product.brand,
+      product.articleNumber,
+      ...ALLERGEN_CODES.map((code) => {
+        const allergen = allergens[code];
+        return allergen ? labels.mark(allergen) : '';
+      }),
+    ]),
+  };
+}
+
+/**
+ * Escape a CSV field
+ *
+ * Fields that spreadsheets would run as a formula (product and brand
+ * names come from the backend) get a leading apostrophe, and fields are
+ * quoted when needed (RFC 4180).
+ */
+function toCsvField(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/**
+ * Convert a text table to CSV
+ */
+function toCsv(table: AllergenMatrixTable): string {
+  return [table.head, ...table.body]
+    .map((row) => row.map(toCsvField).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Build the CSV text (without byte order mark) of an allergen matrix
+ */
+export function toAllergenMatrixCsv(
+  rows: AllergenMatrixRow[],
+  labels: AllergenMatrixLabels
+): string {
+  return toCsv(toTable(rows, labels));
+}
+
+/**
+ * Start a download of a generated file
+ */
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away cancels the download in some browsers
+  setTimeout(() => {
+    URL.revokeObjectURL(url);
+  }, 1000);
+}
+
+/**
+ * Download as CSV, with a byte order mark so Excel reads it as UTF-8
+ */
+function exportCsv(table: AllergenMatrixTable, fileName: string): void {
+  downloadBlob(
+    new Blob(['\uFEFF', toCsv(table)], { type: 'text/csv;charset=utf-8' }),
+    `${fileName}.csv`
+  );
+}
+
+/**
+ * Download as XLSX, with a bold, frozen header row
+ */
+async function exportXlsx(
+  table: AllergenMatrixTable,
+  labels: AllergenMatrixLabels,
+  fileName: string
+): Promise<void> {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+
+  await writeXlsxFile(
+    [
+      table.head.map((value) => ({ value, fontWeight: 'bold' as const })),
+      ...table.body,
+    ],
+    {
+      // Excel limits sheet names to 31 characters
+      sheet: labels.title.slice(0, 31),
+      stickyRowsCount: 1,
+      columns: table.head.map((_, index) => ({ width: index < 3 ? 30 : 14 })),
+    }
+  ).toFile(`${fileName}.xlsx`);
+}
+
+/**
+ * Download as a printable landscape A4 PDF
+ */
+async function exportPdf(
+  table: AllergenMatrixTable,
+  labels: AllergenMatrixLabels,
+  fileName: string
+): Promise<void> {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([
+    import('jspdf'),
+    import('jspdf-autotable'),
+  ]);
+  const pdf = new jsPDF({ orientation: 'landscape', format: 'a4' });
+
+  pdf.setFontSize(14);
+  pdf.text(labels.title, 14, 16);
+  pdf.setFontSize(8);
+  pdf.text(labels.legend, 14, 22);
+
+  autoTable(pdf, {
+    head: [table.head],
+    body: table.body,
+    startY: 26,
+    styles: { fontSize: 7, cellPadding: 1.5, overflow: 'linebreak' },
+    headStyles: { fillColor: [40, 40, 40], halign: 'center' },
+    columnStyles: { 0: { cellWidth: 45 } },
+  });
+
+  pdf.save(`${fileName}.pdf`);
+}
+
+/**
+ * Export the matrix in the given format and download it
+ *
+ * @param fileName - File name without extension
+ */
+export async function exportAllergenMatrix(
+  format: AllergenMatrixFormat,
+  rows: AllergenMatrixRow[],
+  labels: AllergenMatrixLabels,
+  fileName: string
+): Promise<void> {
+  const table = toTable(rows, labels);
+
+  switch (format) {
+    case 'csv':
+      exportCsv(table, fileName);
+      return;
+    case 'xlsx':
+      await exportXlsx(table, labels, fileName);
+      return;
+    case 'pdf':
+      await exportPdf(table, labels, fileName);
+      return;
+  }
+}
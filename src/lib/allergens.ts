@@ -0,0 +1,90 @@
+/**
+ * Allergen model
+ *
+ * The 14 allergens that must be declared under the EU Food Information to
+ * Consumers regulation (EU 1169/2011, Annex II), with the sub-types that
+ * are declared separately (the gluten cereals and the tree nuts). Names
+ * are translated in the `Allergens` messages namespace, keyed by code.
+ */
+
+/**
+ * Allergen codes, in Annex II order
+ */
+export const ALLERGEN_CODES = [
+  'gluten',
+  'crustaceans',
+  'eggs',
+  'fish',
+  'peanuts',
+  'soybeans',
+  'milk',
+  'nuts',
+  'celery',
+  'mustard',
+  'sesame',
+  'sulphites',
+  'lupin',
+  'molluscs',
+] as const;
+
+export type AllergenCode = (typeof ALLERGEN_CODES)[number];
+
+/**
+ * Sub-types of the allergens that have them
+ */
+export const ALLERGEN_SUBTYPES = {
+  gluten: ['wheat', 'rye', 'barley', 'oats', 'spelt', 'kamut'],
+  nuts: [
+    'almonds',
+    'hazelnuts',
+    'walnuts',
+    'cashews',
+    'pecans',
+    'brazilNuts',
+    'pistachios',
+    'macadamias',
+  ],
+} as const satisfies Partial<Record<AllergenCode, readonly string[]>>;
+
+export type AllergenSubtype =
+  (typeof ALLERGEN_SUBTYPES)[keyof typeof ALLERGEN_SUBTYPES][number];
+
+/**
+ * How an allergen is present in a product, from most to least severe
+ *
+ * - contains: an ingredient of the product
+ * - mayContain: possible cross-contamination ("may contain traces of")
+ * - freeFrom: declared absent
+ */
+export const ALLERGEN_LEVELS = ['contains', 'mayContain', 'freeFrom'] as const;
+
+export type AllergenLevel = (typeof ALLERGEN_LEVELS)[number];
+
+/**
+ * Whether a string is a known allergen code
+ */
+export function isAllergenCode(value: string): value is AllergenCode {
+  return (ALLERGEN_CODES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a string is a known sub-type of an allergen
+ */
+export function isAllergenSubtype(
+  code: AllergenCode,
+  value: string
+): value is AllergenSubtype {
+  const subtypes: readonly string[] =
+    code in ALLERGEN_SUBTYPES
+      ? ALLERGEN_SUBTYPES[code as keyof typeof ALLERGEN_SUBTYPES]
+      : [];
+
+  return subtypes.includes(value);
+}
+
+/**
+ * Whether a string is a known allergen level
+ */
+export function isAllergenLevel(value: string): value is AllergenLevel {
+  return (ALLERGEN_LEVELS as readonly string[]).includes(value);
+}
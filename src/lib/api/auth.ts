@@ -0,0 +1,163 @@
+/**
+ * Auth API Client
+ *
+ * Authenticates users against the PS WebAPI, which issues the JWT stored
+ * in the session cookie and the refresh token that renews it (see
+ * `src/lib/auth/session.ts`).
+ * Server-only: credentials and tokens never pass through the browser's
+ * fetch, only through server actions and route handlers.
+ */
+
+import { z } from 'zod';
+
+import { apiFetch } from './errors';
+import { parseResponse, readJson } from './validation';
+
+/**
+ * Login credentials
+ */
+export interface LoginCredentials {
+  email: string;
+  password: string;
+  /** Request a long-lived token */
+  rememberMe: boolean;
+}
+
+/**
+ * Tokens issued by the backend
+ *
+ * The access token is the session JWT; the refresh token exchanges it for
+ * a new one (see refreshTokens).
+ */
+export const authTokensSchema = z.object({
+  accessToken: z.string(),
+  expiresAt: z.date(),
+  refreshToken: z.string(),
+  refreshExpiresAt: z.date(),
+  /** Issued with "remember me": the cookies outlive the browser session */
+  persistent: z.boolean(),
+});
+
+export type AuthTokens = z.infer<typeof authTokensSchema>;
+
+/**
+ * Raw token response of the WebAPI (login and refresh)
+ */
+const webApiTokenResponseSchema = z.object({
+  access_token: z.string(),
+  token_type: z.string(),
+  /** Token lifetime in seconds */
+  expires_in: z.number(),
+  refresh_token: z.string(),
+  /** Refresh token lifetime in seconds */
+  refresh_expires_in: z.number(),
+  remember_me: z.boolean(),
+});
+
+type WebApiTokenResponse = z.infer<typeof webApiTokenResponseSchema>;
+
+const WEBAPI_API_URL = process.env.NEXT_PUBLIC_WEBAPI_API_URL;
+
+if (!WEBAPI_API_URL) {
+  throw new Error('NEXT_PUBLIC_WEBAPI_API_URL environment variable is not set');
+}
+
+/**
+ * Map a WebAPI token response to AuthTokens
+ */
+function mapTokens(raw: WebApiTokenResponse): AuthTokens {
+  return {
+    accessToken: raw.access_token,
+    expiresAt: new Date(Date.now() + raw.expires_in * 1000),
+    refreshToken: raw.refresh_token,
+    refreshExpiresAt: new Date(Date.now() + raw.refresh_expires_in * 1000),
+    persistent: raw.remember_me,
+  };
+}
+
+/**
+ * Authenticate with email and password
+ *
+ * @throws UnauthorizedError when the credentials are invalid
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function login(
+  credentials: LoginCredentials
+): Promise<AuthTokens> {
+  const source = 'WebAPI login';
+
+  const response = await apiFetch(
+    `${WEBAPI_API_URL}/api/Auth/Login`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        email: credentials.email,
+        password: credentials.password,
+        rememberMe: credentials.rememberMe,
+      }),
+      cache: 'no-store',
+    },
+    source
+  );
+
+  return mapTokens(
+    parseResponse(
+      webApiTokenResponseSchema,
+      await readJson(response, source),
+      source
+    )
+  );
+}
+
+/**
+ * Exchange a refresh token for new tokens
+ *
+ * Refresh tokens are single-use: the backend rotates them on every
+ * refresh, and presenting an already used one (reuse, e.g. a stolen
+ * token) revokes all tokens issued from the same login.
+ *
+ * @throws UnauthorizedError when the refresh token is invalid, expired,
+ * revoked or reused
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function refreshTokens(refreshToken: string): Promise<AuthTokens> {
+  const source = 'WebAPI token refresh';
+
+  const response = await apiFetch(
+    `${WEBAPI_API_URL}/api/Auth/Refresh`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+      cache: 'no-store',
+    },
+    source
+  );
+
+  return mapTokens(
+    parseResponse(
+      webApiTokenResponseSchema,
+      await readJson(response, source),
+      source
+    )
+  );
+}
+
+/**
+ * Revoke a refresh token (and the tokens issued from the same login)
+ *
+ * @throws ApiError when the request fails
+ */
+export async function revokeRefreshToken(refreshToken: string): Promise<void> {
+  await apiFetch(
+    `${WEBAPI_API_URL}/api/Auth/Revoke`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+      cache: 'no-store',
+    },
+    'WebAPI token revocation'
+  );
+}
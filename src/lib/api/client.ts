@@ -4,6 +4,8 @@ import {
   isServer,
 } from '@tanstack/react-query';
 
+import { ApiError, RateLimitedError } from './errors';
+
 /**
  * Creates a new QueryClient instance with optimized defaults
  * for the Foodbook application
@@ -22,26 +24,29 @@ export function makeQueryClient() {
         // (user can manually refresh if needed)
         refetchOnWindowFocus: false,
 
-        // Retry logic: don't retry on 4xx errors (client errors)
+        // Retry logic: only retry errors that may succeed on a second try
         retry: (failureCount, error) => {
           // Don't retry more than 2 times
           if (failureCount >= 2) return false;
 
-          // Don't retry on 4xx errors (client errors)
-          if (
-            error instanceof Error &&
-            'status' in error &&
-            typeof error.status === 'number'
-          ) {
-            if (error.status >= 400 && error.status < 500) return false;
-          }
+          // ApiErrors know whether they are retryable
+          // (4xx and invalid responses are not, except 429)
+          if (error instanceof ApiError) return error.retryable;
 
-          // Retry on network errors and 5xx errors
+          // Retry on other (unexpected) errors
           return true;
         },
 
-        // Exponential backoff: 1s, 2s, 4s
-        retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+        // Respect Retry-After on 429, otherwise exponential backoff: 1s, 2s, 4s
+        retryDelay: (attemptIndex, error) => {
+          if (
+            error instanceof RateLimitedError &&
+            error.retryAfterMs !== undefined
+          ) {
+            return Math.min(error.retryAfterMs, 30000);
+          }
+          return Math.min(1000 * 2 ** attemptIndex, 30000);
+        },
       },
       mutations: {
         // Don't retry mutations by default
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  ApiError,
+  errorFromResponse,
+  ForbiddenError,
+  getErrorMessageKey,
+  NetworkError,
+  NotFoundError,
+  parseRetryAfter,
+  RateLimitedError,
+  ServerError,
+  UnauthorizedError,
+  ValidationError,
+} from './errors';
+
+describe('parseRetryAfter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns undefined without a header', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+  });
+
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120_000);
+    expect(parseRetryAfter('1.5')).toBe(1500);
+  });
+
+  it('clamps negative values to zero', () => {
+    expect(parseRetryAfter('-5')).toBe(0);
+  });
+
+  it('parses an HTTP date relative to now', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+
+    expect(parseRetryAfter('Thu, 01 Jan 2026 12:00:30 GMT')).toBe(30_000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 11:00:00 GMT')).toBe(0);
+  });
+
+  it('returns undefined for invalid values', () => {
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('errorFromResponse', () => {
+  const source = 'Test endpoint';
+
+  function respond(status: number, headers: HeadersInit = {}): ApiError {
+    return errorFromResponse(new Response(null, { status, headers }), source);
+  }
+
+  it.each([
+    [401, UnauthorizedError],
+    [403, ForbiddenError],
+    [404, NotFoundError],
+    [429, RateLimitedError],
+    [500, ServerError],
+    [503, ServerError],
+  ])('maps %i to %o', (status, ErrorClass) => {
+    const error = respond(status);
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error.status).toBe(status);
+    expect(error.source).toBe(source);
+  });
+
+  it('maps other statuses to a plain ApiError', () => {
+    const error = respond(409);
+
+    expect(error.constructor).toBe(ApiError);
+    expect(error.status).toBe(409);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('reads Retry-After for 429 responses', () => {
+    const error = respond(429, { 'Retry-After': '10' });
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).retryAfterMs).toBe(10_000);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('marks server errors as retryable', () => {
+    expect(respond(502).retryable).toBe(true);
+    expect(respond(404).retryable).toBe(false);
+  });
+});
+
+describe('getErrorMessageKey', () => {
+  it.each([
+    [new NotFoundError('x'), 'notFound'],
+    [new UnauthorizedError('x'), 'unauthorized'],
+    [new ForbiddenError('x'), 'forbidden'],
+    [new RateLimitedError('x'), 'rateLimited'],
+    [new ServerError('x'), 'serverError'],
+    [new NetworkError('x'), 'networkError'],
+    [new ValidationError('x', []), 'invalidResponse'],
+    [new Error('x'), 'generic'],
+  ])('maps %o to %s', (error, key) => {
+    expect(getErrorMessageKey(error)).toBe(key);
+  });
+});
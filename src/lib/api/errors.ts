@@ -0,0 +1,290 @@
+/**
+ * API error hierarchy
+ *
+ * Every fetcher in `src/lib/api` throws a subclass of ApiError, so callers
+ * (and the QueryClient retry policy) can branch on the failure type instead
+ * of parsing error messages.
+ */
+
+/**
+ * A single schema violation in an API response
+ */
+export interface ValidationIssue {
+  /** Dot/bracket path to the offending value, e.g. `results[3].price` */
+  path: string;
+  /** What the schema expected at this path */
+  expected: string;
+  /** What the response actually contained at this path */
+  received: string;
+  /** Human readable zod message */
+  message: string;
+}
+
+/**
+ * Base class for all API errors
+ *
+ * `status` is the HTTP status code, or 0 when no (usable) HTTP response
+ * was received (network failures, invalid response bodies).
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  /** Name of the endpoint/resource that failed */
+  readonly source: string;
+
+  constructor(message: string, status: number, source: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.source = source;
+  }
+
+  /**
+   * Whether retrying the same request may succeed
+   *
+   * Client errors (4xx) are not retried by default.
+   */
+  get retryable(): boolean {
+    return this.status === 0 || this.status >= 500;
+  }
+
+  /**
+   * Structured representation for loggers
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      message: this.message,
+      status: this.status,
+      source: this.source,
+    };
+  }
+}
+
+/**
+ * 401 - The request requires (re)authentication
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(source: string, message = 'Unauthorized') {
+    super(message, 401, source);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * 403 - The user is authenticated but not allowed to access the resource
+ */
+export class ForbiddenError extends ApiError {
+  constructor(source: string, message = 'Forbidden') {
+    super(message, 403, source);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * 404 - The resource does not exist
+ */
+export class NotFoundError extends ApiError {
+  constructor(source: string, message = 'Not found') {
+    super(message, 404, source);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * 429 - Too many requests
+ *
+ * Unlike other client errors this one is retryable, after `retryAfterMs`
+ * when the server sent a Retry-After header.
+ */
+export class RateLimitedError extends ApiError {
+  readonly retryAfterMs: number | undefined;
+
+  constructor(source: string, retryAfterMs?: number, message = 'Rate limited') {
+    super(message, 429, source);
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  override get retryable(): boolean {
+    return true;
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), retryAfterMs: this.retryAfterMs };
+  }
+}
+
+/**
+ * 5xx - The server failed to handle the request
+ */
+export class ServerError extends ApiError {
+  constructor(source: string, status = 500, message = 'Server error') {
+    super(message, status, source);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The request never produced an HTTP response (offline, DNS, CORS, ...)
+ */
+export class NetworkError extends ApiError {
+  constructor(source: string, cause?: unknown) {
+    super('Network error', 0, source);
+    this.name = 'NetworkError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * The response body does not match the expected schema
+ *
+ * Not retryable: the same request will return the same shape.
+ */
+export class ValidationError extends ApiError {
+  readonly issues: ValidationIssue[];
+
+  constructor(source: string, issues: ValidationIssue[]) {
+    super(
+      `Invalid response from ${source}: ${issues
+        .map((issue) => `${issue.path || '<root>'} (${issue.message})`)
+        .join('; ')}`,
+      0,
+      source
+    );
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+
+  override get retryable(): boolean {
+    return false;
+  }
+
+  override toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), issues: this.issues };
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Create the matching ApiError for a non-2xx response
+ */
+export function errorFromResponse(
+  response: Response,
+  source: string
+): ApiError {
+  const message = `${source}: ${response.status.toString()} ${response.statusText}`;
+
+  switch (response.status) {
+    case 401:
+      return new UnauthorizedError(source, message);
+    case 403:
+      return new ForbiddenError(source, message);
+    case 404:
+      return new NotFoundError(source, message);
+    case 429:
+      return new RateLimitedError(
+        source,
+        parseRetryAfter(response.headers.get('Retry-After')),
+        message
+      );
+    default:
+      if (response.status >= 500) {
+        return new ServerError(source, response.status, message);
+      }
+      return new ApiError(message, response.status, source);
+  }
+}
+
+/**
+ * fetch() wrapper that throws ApiErrors
+ *
+ * - Network failures become NetworkError
+ * - Non-2xx responses become the matching ApiError subclass
+ * - Aborts are rethrown unchanged so TanStack Query can cancel queries
+ *
+ * @param source - Endpoint/resource name used in error messages
+ */
+export async function apiFetch(
+  input: string,
+  init: RequestInit,
+  source: string
+): Promise<Response> {
+  let response: Response;
+
+  try {
+    response = await fetch(input, init);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw error;
+    }
+    throw new NetworkError(source, error);
+  }
+
+  if (!response.ok) {
+    throw errorFromResponse(response, source);
+  }
+
+  return response;
+}
+
+/**
+ * Translation keys in the `Errors` namespace
+ */
+export type ErrorMessageKey =
+  | 'notFound'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'rateLimited'
+  | 'serverError'
+  | 'networkError'
+  | 'invalidResponse'
+  | 'generic';
+
+/**
+ * Map an error to its localized message key in the `Errors` namespace
+ *
+ * The description is available under `${key}Description`.
+ *
+ * @example
+ * ```tsx
+ * const t = useTranslations('Errors');
+ * const key = getErrorMessageKey(error);
+ *
+ * return (
+ *   <>
+ *     <h1>{t(key)}</h1>
+ *     <p>{t(`${key}Description`)}</p>
+ *   </>
+ * );
+ * ```
+ */
+export function getErrorMessageKey(error: unknown): ErrorMessageKey {
+  if (error instanceof NotFoundError) return 'notFound';
+  if (error instanceof UnauthorizedError) return 'unauthorized';
+  if (error instanceof ForbiddenError) return 'forbidden';
+  if (error instanceof RateLimitedError) return 'rateLimited';
+  if (error instanceof ServerError) return 'serverError';
+  if (error instanceof NetworkError) return 'networkError';
+  if (error instanceof ValidationError) return 'invalidResponse';
+  return 'generic';
+}
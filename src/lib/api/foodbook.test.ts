@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { NotFoundError, ValidationError } from './errors';
+import { getBrands, getProductSheet, searchProducts } from './foodbook';
+
+/**
+ * Stub fetch to answer every request with `body`
+ */
+function mockFetch(body: unknown, init?: ResponseInit) {
+  const fetchMock = vi.fn(() =>
+    Promise.resolve(
+      new Response(JSON.stringify(body), {
+        headers: { 'Content-Type': 'application/json' },
+        ...init,
+      })
+    )
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const searchResultItem = {
+  productId: 1,
+  productName: 'Tomato soup',
+  brandId: 7,
+  brandName: null,
+  articleNumber: 'A-1',
+  description: null,
+  price: null,
+  imageUrl: null,
+  inStock: true,
+  allergens: [
+    { code: 'gluten', level: 'contains', subTypes: ['wheat', 'unknown'] },
+    { code: 'celery', level: 'mayContain', subTypes: null },
+    { code: 'unknown', level: 'contains', subTypes: null },
+    { code: 'milk', level: 'unknown', subTypes: null },
+  ],
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('searchProducts', () => {
+  it('maps the search results', async () => {
+    mockFetch({
+      results: [searchResultItem],
+      totalResults: 43,
+      page: 0,
+      pageSize: 21,
+    });
+
+    await expect(searchProducts({})).resolves.toEqual({
+      products: [
+        {
+          id: 1,
+          name: 'Tomato soup',
+          brand: '',
+          brandId: 7,
+          articleNumber: 'A-1',
+          description: '',
+          price: 0,
+          image: '/placeholder-product.jpg',
+          inStock: true,
+          allergens: [
+            { code: 'gluten', level: 'contains', subtypes: ['wheat'] },
+            { code: 'celery', level: 'mayContain', subtypes: [] },
+          ],
+        },
+      ],
+      total: 43,
+      page: 0,
+      pageSize: 21,
+      totalPages: 3,
+    });
+  });
+
+  it('sends the search params as filter body', async () => {
+    const fetchMock = mockFetch({
+      results: [],
+      totalResults: 0,
+      page: 2,
+      pageSize: 21,
+    });
+
+    await searchProducts({
+      keyword: 'soup',
+      brands: [7],
+      allergenFree: ['gluten'],
+      sortBy: 'name_asc',
+      page: 2,
+    });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe('https://foodbook.test/v2/Search/SearchResults');
+    expect(JSON.parse(init.body as string)).toEqual({
+      keyword: 'soup',
+      brandIds: [7],
+      categoryIds: [],
+      minPrice: null,
+      maxPrice: null,
+      inStock: null,
+      allergenFree: ['gluten'],
+      excludeMayContain: false,
+      certificationIds: [],
+      sortBy: 'name_asc',
+      page: 2,
+      pageSize: 21,
+    });
+  });
+
+  it('throws a ValidationError for unexpected responses', async () => {
+    mockFetch({ results: null });
+
+    await expect(searchProducts({})).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe('getProductSheet', () => {
+  const sheet = {
+    ...searchResultItem,
+    imageUrl: 'https://cdn.test/soup.jpg',
+    images: null,
+    specifications: [
+      { name: 'Weight', value: '500 g' },
+      { name: 'Origin', value: null },
+    ],
+    ingredients: null,
+    nutrients: [
+      { code: 'energyKcal', value: 45 },
+      { code: 'unknown', value: 1 },
+    ],
+    nutrientBasis: '100ml',
+    portionSize: 250,
+    portionDescription: null,
+    packaging: null,
+    storage: null,
+  };
+
+  it('maps the product sheet', async () => {
+    mockFetch(sheet);
+
+    const product = await getProductSheet(1);
+
+    expect(product.images).toEqual(['https://cdn.test/soup.jpg']);
+    expect(product.specifications).toEqual([
+      { label: 'Weight', value: '500 g' },
+    ]);
+    expect(product.nutritionalInfo).toEqual({
+      basis: '100ml',
+      portion: { size: 250, description: '' },
+      nutrients: [{ code: 'energyKcal', value: 45 }],
+    });
+    expect(product.packaging).toEqual([]);
+  });
+
+  it('has no portion without a positive portion size', async () => {
+    mockFetch({ ...sheet, portionSize: 0, nutrientBasis: null });
+
+    const { nutritionalInfo } = await getProductSheet(1);
+
+    expect(nutritionalInfo.basis).toBe('100g');
+    expect(nutritionalInfo.portion).toBeNull();
+  });
+
+  it('throws a NotFoundError for unknown products', async () => {
+    mockFetch(null, { status: 404 });
+
+    await expect(getProductSheet(1)).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
+
+describe('getBrands', () => {
+  it('maps the brands', async () => {
+    mockFetch([
+      { brandId: 7, brandName: 'Soups Inc', logoUrl: null, productCount: null },
+    ]);
+
+    await expect(getBrands()).resolves.toEqual([
+      { id: 7, name: 'Soups Inc', logo: null, productCount: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,773 @@
+/**
+ * Foodbook API Client
+ *
+ * Handles fetching product data from the Foodbook REST API (v2).
+ * Maps the backend payloads into the domain types used by the application.
+ * Responses are validated with zod before mapping; the domain types are
+ * derived from their schemas.
+ */
+
+import { z } from 'zod';
+
+import type { Locale } from '@/i18n/config';
+import {
+  ALLERGEN_CODES,
+  ALLERGEN_LEVELS,
+  ALLERGEN_SUBTYPES,
+  isAllergenCode,
+  isAllergenLevel,
+  isAllergenSubtype,
+  type AllergenCode,
+} from '@/lib/allergens';
+import {
+  isNutrientCode,
+  NUTRIENT_BASES,
+  NUTRIENT_CODES,
+} from '@/lib/nutrients';
+
+import { apiFetch } from './errors';
+import { parseResponse, readJson } from './validation';
+
+/**
+ * Available product sort orders
+ */
+export const PRODUCT_SORT_OPTIONS = [
+  'relevance',
+  'name_asc',
+  'name_desc',
+  'price_asc',
+  'price_desc',
+] as const;
+
+export type ProductSortOption = (typeof PRODUCT_SORT_OPTIONS)[number];
+
+/**
+ * Product search filters
+ *
+ * The subset of the search parameters that affects facet counts.
+ */
+export interface ProductFacetParams extends Record<string, unknown> {
+  keyword?: string;
+  brands?: number[];
+  categories?: number[];
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  /** Allergens the products must not contain */
+  allergenFree?: AllergenCode[];
+  /** Also exclude products that may contain the `allergenFree` allergens */
+  excludeMayContain?: boolean;
+  certifications?: number[];
+}
+
+/**
+ * Product search parameters
+ */
+export interface ProductSearchParams extends ProductFacetParams {
+  page?: number;
+  pageSize?: number;
+  sortBy?: ProductSortOption;
+}
+
+/**
+ * Allergen declaration of a product
+ *
+ * Allergens the product does not declare are unknown, not absent; only
+ * `freeFrom` declares absence.
+ */
+export const productAllergenSchema = z.object({
+  code: z.enum(ALLERGEN_CODES),
+  level: z.enum(ALLERGEN_LEVELS),
+  /** The declared sub-types, e.g. hazelnuts for nuts (empty if unspecified) */
+  subtypes: z.array(
+    z.enum([...ALLERGEN_SUBTYPES.gluten, ...ALLERGEN_SUBTYPES.nuts])
+  ),
+});
+
+export type ProductAllergen = z.infer<typeof productAllergenSchema>;
+
+/**
+ * Product as used throughout the application
+ */
+export const productSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  brand: z.string(),
+  brandId: z.number(),
+  articleNumber: z.string(),
+  description: z.string(),
+  price: z.number(),
+  image: z.string(),
+  inStock: z.boolean(),
+  allergens: z.array(productAllergenSchema),
+});
+
+export type Product = z.infer<typeof productSchema>;
+
+/**
+ * Paginated product search result
+ */
+export const productSearchResponseSchema = z.object({
+  products: z.array(productSchema),
+  total: z.number(),
+  page: z.number(),
+  pageSize: z.number(),
+  totalPages: z.number(),
+});
+
+export type ProductSearchResponse = z.infer<typeof productSearchResponseSchema>;
+
+/**
+ * Selectable filter value with the number of matching products
+ */
+export const facetOptionSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  count: z.number(),
+});
+
+export type FacetOption = z.infer<typeof facetOptionSchema>;
+
+/**
+ * "Free of allergen" filter flag with the number of matching products
+ */
+export const allergenFacetOptionSchema = z.object({
+  code: z.enum(ALLERGEN_CODES),
+  name: z.string(),
+  count: z.number(),
+});
+
+export type AllergenFacetOption = z.infer<typeof allergenFacetOptionSchema>;
+
+/**
+ * Available filters (facets) for a product search
+ *
+ * Counts for each facet are computed with all *other* active filters
+ * applied, so selecting a brand does not zero out the other brands.
+ */
+export const productFacetsSchema = z.object({
+  brands: z.array(facetOptionSchema),
+  categories: z.array(facetOptionSchema),
+  allergenFree: z.array(allergenFacetOptionSchema),
+  certifications: z.array(facetOptionSchema),
+  priceRange: z.object({
+    min: z.number(),
+    max: z.number(),
+  }),
+});
+
+export type ProductFacets = z.infer<typeof productFacetsSchema>;
+
+/**
+ * Strip paging and sorting from search params, so paging through
+ * results does not refetch the facets
+ */
+export function toProductFacetParams({
+  page: _page,
+  pageSize: _pageSize,
+  sortBy: _sortBy,
+  ...params
+}: ProductSearchParams): ProductFacetParams {
+  return params;
+}
+
+/**
+ * Label/value pair on a product sheet (specifications, packaging)
+ */
+export const productSheetPropertySchema = z.object({
+  label: z.string(),
+  value: z.string(),
+});
+
+export type ProductSheetProperty = z.infer<typeof productSheetPropertySchema>;
+
+/**
+ * Declared nutrient, in the unit of the nutrient (see NUTRIENTS)
+ */
+export const productNutrientSchema = z.object({
+  code: z.enum(NUTRIENT_CODES),
+  value: z.number(),
+});
+
+export type ProductNutrient = z.infer<typeof productNutrientSchema>;
+
+/**
+ * Nutrition declaration of a product
+ */
+export const productNutritionSchema = z.object({
+  /** Values are per 100 g or per 100 ml */
+  basis: z.enum(NUTRIENT_BASES),
+  /** Suggested portion, in g or ml (the unit of the basis) */
+  portion: z
+    .object({
+      size: z.number(),
+      description: z.string(),
+    })
+    .nullable(),
+  nutrients: z.array(productNutrientSchema),
+});
+
+export type ProductNutrition = z.infer<typeof productNutritionSchema>;
+
+/**
+ * Full product sheet as shown on the product detail page
+ */
+export const productSheetSchema = productSchema.extend({
+  images: z.array(z.string()),
+  specifications: z.array(productSheetPropertySchema),
+  ingredients: z.string(),
+  nutritionalInfo: productNutritionSchema,
+  packaging: z.array(productSheetPropertySchema),
+  storage: z.string(),
+});
+
+export type ProductSheet = z.infer<typeof productSheetSchema>;
+
+/**
+ * Search-as-you-type suggestions, grouped by type
+ */
+export const autocompleteSuggestionsSchema = z.object({
+  products: z.array(
+    z.object({
+      id: z.number(),
+      name: z.string(),
+      brand: z.string(),
+    })
+  ),
+  brands: z.array(
+    z.object({
+      id: z.number(),
+      name: z.string(),
+    })
+  ),
+  articleNumbers: z.array(
+    z.object({
+      productId: z.number(),
+      articleNumber: z.string(),
+      name: z.string(),
+    })
+  ),
+});
+
+export type AutocompleteSuggestions = z.infer<
+  typeof autocompleteSuggestionsSchema
+>;
+
+/**
+ * Brand as listed in the brand directory
+ */
+export const brandSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  logo: z.string().nullable(),
+  productCount: z.number(),
+});
+
+export type Brand = z.infer<typeof brandSchema>;
+
+/**
+ * Brand with its details, for the brand page
+ */
+export const brandDetailSchema = brandSchema.extend({
+  description: z.string(),
+  website: z.string().nullable(),
+});
+
+export type BrandDetail = z.infer<typeof brandDetailSchema>;
+
+/**
+ * Allergen declaration as returned by the Foodbook API
+ */
+const foodbookAllergenSchema = z.object({
+  code: z.string(),
+  level: z.string(),
+  subTypes: z.array(z.string()).nullable(),
+});
+
+type FoodbookAllergen = z.infer<typeof foodbookAllergenSchema>;
+
+/**
+ * Search result item as returned by /v2/Search/SearchResults
+ */
+const foodbookSearchResultItemSchema = z.object({
+  productId: z.number(),
+  productName: z.string(),
+  brandId: z.number(),
+  brandName: z.string().nullable(),
+  articleNumber: z.string().nullable(),
+  description: z.string().nullable(),
+  price: z.number().nullable(),
+  imageUrl: z.string().nullable(),
+  inStock: z.boolean(),
+  allergens: z.array(foodbookAllergenSchema).nullable(),
+});
+
+type FoodbookSearchResultItem = z.infer<typeof foodbookSearchResultItemSchema>;
+
+/**
+ * Response body of /v2/Search/Facets
+ */
+const foodbookFacetsResponseSchema = z.object({
+  brands: z.array(facetOptionSchema).nullable(),
+  categories: z.array(facetOptionSchema).nullable(),
+  allergenFree: z
+    .array(
+      z.object({
+        code: z.string(),
+        name: z.string(),
+        count: z.number(),
+      })
+    )
+    .nullable(),
+  certifications: z.array(facetOptionSchema).nullable(),
+  minPrice: z.number().nullable(),
+  maxPrice: z.number().nullable(),
+});
+
+/**
+ * Name/value pair as returned by /v2/Product/GetProductSheet
+ */
+const foodbookSheetPropertySchema = z.object({
+  name: z.string(),
+  value: z.string().nullable(),
+});
+
+/**
+ * Response body of /v2/Product/GetProductSheet/{id}
+ */
+const foodbookProductSheetSchema = foodbookSearchResultItemSchema.extend({
+  images: z.array(z.string()).nullable(),
+  specifications: z.array(foodbookSheetPropertySchema).nullable(),
+  ingredients: z.string().nullable(),
+  nutrients: z
+    .array(
+      z.object({
+        code: z.string(),
+        value: z.number(),
+      })
+    )
+    .nullable(),
+  nutrientBasis: z.string().nullable(),
+  portionSize: z.number().nullable(),
+  portionDescription: z.string().nullable(),
+  packaging: z.array(foodbookSheetPropertySchema).nullable(),
+  storage: z.string().nullable(),
+});
+
+type FoodbookSheetProperty = z.infer<typeof foodbookSheetPropertySchema>;
+
+/**
+ * Response body of /v2/Search/SearchResults
+ */
+const foodbookSearchResultsResponseSchema = z.object({
+  results: z.array(foodbookSearchResultItemSchema),
+  totalResults: z.number(),
+  page: z.number(),
+  pageSize: z.number(),
+});
+
+/**
+ * Response body of /v2/Search/{locale}/AutoComplete/{keyword}
+ */
+const foodbookAutocompleteResponseSchema = z.object({
+  products: z
+    .array(
+      z.object({
+        productId: z.number(),
+        productName: z.string(),
+        brandName: z.string().nullable(),
+      })
+    )
+    .nullable(),
+  brands: z
+    .array(
+      z.object({
+        brandId: z.number(),
+        brandName: z.string(),
+      })
+    )
+    .nullable(),
+  articleNumbers: z
+    .array(
+      z.object({
+        productId: z.number(),
+        articleNumber: z.string(),
+        productName: z.string(),
+      })
+    )
+    .nullable(),
+});
+
+/**
+ * Brand as returned by /v2/Brand/GetBrands
+ */
+const foodbookBrandSchema = z.object({
+  brandId: z.number(),
+  brandName: z.string(),
+  logoUrl: z.string().nullable(),
+  productCount: z.number().nullable(),
+});
+
+type FoodbookBrand = z.infer<typeof foodbookBrandSchema>;
+
+/**
+ * Response body of /v2/Brand/GetBrand/{id}
+ */
+const foodbookBrandDetailSchema = foodbookBrandSchema.extend({
+  description: z.string().nullable(),
+  websiteUrl: z.string().nullable(),
+});
+
+const FOODBOOK_API_URL = process.env.NEXT_PUBLIC_FOODBOOK_API_URL;
+
+if (!FOODBOOK_API_URL) {
+  throw new Error(
+    'NEXT_PUBLIC_FOODBOOK_API_URL environment variable is not set'
+  );
+}
+
+/**
+ * Default number of products per page (3 column grid)
+ */
+export const DEFAULT_PAGE_SIZE = 21;
+
+/**
+ * Placeholder image for products without an image
+ */
+const PLACEHOLDER_IMAGE = '/placeholder-product.jpg';
+
+/**
+ * Map backend allergen declarations, dropping unknown allergens, levels
+ * and sub-types (newer backend versions may add them)
+ */
+function mapAllergens(allergens: FoodbookAllergen[] | null): ProductAllergen[] {
+  return (allergens ?? []).flatMap(({ code, level, subTypes }) =>
+    isAllergenCode(code) && isAllergenLevel(level)
+      ? [
+          {
+            code,
+            level,
+            subtypes: (subTypes ?? []).filter((subtype) =>
+              isAllergenSubtype(code, subtype)
+            ),
+          },
+        ]
+      : []
+  );
+}
+
+/**
+ * Map a backend search result item to a Product
+ */
+function mapSearchResultItem(item: FoodbookSearchResultItem): Product {
+  return {
+    id: item.productId,
+    name: item.productName,
+    brand: item.brandName ?? '',
+    brandId: item.brandId,
+    articleNumber: item.articleNumber ?? '',
+    description: item.description ?? '',
+    price: item.price ?? 0,
+    image: item.imageUrl ?? PLACEHOLDER_IMAGE,
+    inStock: item.inStock,
+    allergens: mapAllergens(item.allergens),
+  };
+}
+
+/**
+ * Map backend name/value pairs, dropping empty values
+ */
+function mapSheetProperties(
+  properties: FoodbookSheetProperty[] | null
+): ProductSheetProperty[] {
+  return (properties ?? []).flatMap((property) =>
+    property.value ? [{ label: property.name, value: property.value }] : []
+  );
+}
+
+/**
+ * Map a backend brand to a Brand
+ */
+function mapBrand(brand: FoodbookBrand): Brand {
+  return {
+    id: brand.brandId,
+    name: brand.brandName,
+    logo: brand.logoUrl,
+    productCount: brand.productCount ?? 0,
+  };
+}
+
+/**
+ * Build the filter part of a search request body
+ */
+function toSearchFilterBody(params: ProductFacetParams) {
+  return {
+    keyword: params.keyword ?? '',
+    brandIds: params.brands ?? [],
+    categoryIds: params.categories ?? [],
+    minPrice: params.minPrice ?? null,
+    maxPrice: params.maxPrice ?? null,
+    inStock: params.inStock ?? null,
+    allergenFree: params.allergenFree ?? [],
+    excludeMayContain: params.excludeMayContain ?? false,
+    certificationIds: params.certifications ?? [],
+  };
+}
+
+/**
+ * Search products
+ *
+ * Forwards all search parameters to /v2/Search/SearchResults and maps
+ * the response into a ProductSearchResponse.
+ *
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function searchProducts(
+  params: ProductSearchParams,
+  signal?: AbortSignal
+): Promise<ProductSearchResponse> {
+  const page = params.page ?? 0;
+  const pageSize = params.pageSize ?? DEFAULT_PAGE_SIZE;
+
+  const response = await apiFetch(
+    `${FOODBOOK_API_URL}/v2/Search/SearchResults`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: JSON.stringify({
+        ...toSearchFilterBody(params),
+        sortBy: params.sortBy ?? 'relevance',
+        page,
+        pageSize,
+      }),
+      ...(signal !== undefined && { signal }),
+    },
+    'Foodbook SearchResults'
+  );
+
+  const data = parseResponse(
+    foodbookSearchResultsResponseSchema,
+    await readJson(response, 'Foodbook SearchResults'),
+    'Foodbook SearchResults'
+  );
+
+  return {
+    products: data.results.map(mapSearchResultItem),
+    total: data.totalResults,
+    page: data.page,
+    pageSize: data.pageSize,
+    totalPages: Math.ceil(data.totalResults / Math.max(data.pageSize, 1)),
+  };
+}
+
+/**
+ * Fetch the available filters (facets) for a product search
+ *
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function getProductFacets(
+  params: ProductFacetParams,
+  signal?: AbortSignal
+): Promise<ProductFacets> {
+  const source = 'Foodbook Facets';
+
+  const response = await apiFetch(
+    `${FOODBOOK_API_URL}/v2/Search/Facets`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: JSON.stringify(toSearchFilterBody(params)),
+      ...(signal !== undefined && { signal }),
+    },
+    source
+  );
+
+  const data = parseResponse(
+    foodbookFacetsResponseSchema,
+    await readJson(response, source),
+    source
+  );
+
+  return {
+    brands: data.brands ?? [],
+    categories: data.categories ?? [],
+    allergenFree: (data.allergenFree ?? []).flatMap(({ code, ...option }) =>
+      isAllergenCode(code) ? [{ ...option, code }] : []
+    ),
+    certifications: data.certifications ?? [],
+    priceRange: {
+      min: Math.floor(data.minPrice ?? 0),
+      max: Math.ceil(data.maxPrice ?? 0),
+    },
+  };
+}
+
+/**
+ * Fetch the full product sheet for a product
+ *
+ * @throws NotFoundError when the product does not exist
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function getProductSheet(
+  id: number,
+  signal?: AbortSignal
+): Promise<ProductSheet> {
+  const source = `Foodbook GetProductSheet ${id.toString()}`;
+
+  const response = await apiFetch(
+    `${FOODBOOK_API_URL}/v2/Product/GetProductSheet/${id.toString()}`,
+    {
+      headers: {
+        Accept: 'application/json',
+      },
+      ...(signal !== undefined && { signal }),
+    },
+    source
+  );
+
+  const data = parseResponse(
+    foodbookProductSheetSchema,
+    await readJson(response, source),
+    source
+  );
+
+  return {
+    ...mapSearchResultItem(data),
+    images: data.images ?? (data.imageUrl ? [data.imageUrl] : []),
+    specifications: mapSheetProperties(data.specifications),
+    ingredients: data.ingredients ?? '',
+    nutritionalInfo: {
+      basis: data.nutrientBasis === '100ml' ? '100ml' : '100g',
+      portion:
+        data.portionSize !== null && data.portionSize > 0
+          ? {
+              size: data.portionSize,
+              description: data.portionDescription ?? '',
+            }
+          : null,
+      // Unknown nutrients are dropped (newer backend versions may add them)
+      nutrients: (data.nutrients ?? []).flatMap(({ code, value }) =>
+        isNutrientCode(code) ? [{ code, value }] : []
+      ),
+    },
+    packaging: mapSheetProperties(data.packaging),
+    storage: data.storage ?? '',
+  };
+}
+
+/**
+ * Fetch search-as-you-type suggestions
+ *
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function getAutocompleteSuggestions(
+  locale: Locale,
+  keyword: string,
+  signal?: AbortSignal
+): Promise<AutocompleteSuggestions> {
+  const source = 'Foodbook AutoComplete';
+
+  const response = await apiFetch(
+    `${FOODBOOK_API_URL}/v2/Search/${locale}/AutoComplete/${encodeURIComponent(keyword)}`,
+    {
+      headers: {
+        Accept: 'application/json',
+      },
+      ...(signal !== undefined && { signal }),
+    },
+    source
+  );
+
+  const data = parseResponse(
+    foodbookAutocompleteResponseSchema,
+    await readJson(response, source),
+    source
+  );
+
+  return {
+    products: (data.products ?? []).map((product) => ({
+      id: product.productId,
+      name: product.productName,
+      brand: product.brandName ?? '',
+    })),
+    brands: (data.brands ?? []).map((brand) => ({
+      id: brand.brandId,
+      name: brand.brandName,
+    })),
+    articleNumbers: (data.articleNumbers ?? []).map((item) => ({
+      productId: item.productId,
+      articleNumber: item.articleNumber,
+      name: item.productName,
+    })),
+  };
+}
+
+/**
+ * Fetch all brands, for the brand directory
+ *
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function getBrands(signal?: AbortSignal): Promise<Brand[]> {
+  const source = 'Foodbook GetBrands';
+
+  const response = await apiFetch(
+    `${FOODBOOK_API_URL}/v2/Brand/GetBrands`,
+    {
+      headers: {
+        Accept: 'application/json',
+      },
+      ...(signal !== undefined && { signal }),
+    },
+    source
+  );
+
+  const data = parseResponse(
+    z.array(foodbookBrandSchema),
+    await readJson(response, source),
+    source
+  );
+
+  return data.map(mapBrand);
+}
+
+/**
+ * Fetch a single brand with its details
+ *
+ * @throws NotFoundError when the brand does not exist
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function getBrand(
+  id: number,
+  signal?: AbortSignal
+): Promise<BrandDetail> {
+  const source = `Foodbook GetBrand ${id.toString()}`;
+
+  const response = await apiFetch(
+    `${FOODBOOK_API_URL}/v2/Brand/GetBrand/${id.toString()}`,
+    {
+      headers: {
+        Accept: 'application/json',
+      },
+      ...(signal !== undefined && { signal }),
+    },
+    source
+  );
+
+  const data = parseResponse(
+    foodbookBrandDetailSchema,
+    await readJson(response, source),
+    source
+  );
+
+  return {
+    ...mapBrand(data),
+    description: data.description ?? '',
+    website: data.websiteUrl,
+  };
+}
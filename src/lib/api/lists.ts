@@ -0,0 +1,321 @@
+/**
+ * Product Lists API Client
+ *
+ * Favorites and named product lists of the logged-in user, stored in the
+ * PS WebAPI. Every user has one favorites list (created by the backend,
+ * it cannot be renamed or deleted) and any number of named lists.
+ * The fetchers are server-only, as they need the session token; the
+ * browser goes through the `/api/lists` route handlers (see use-lists).
+ * The schemas are shared with the client.
+ */
+
+import { z } from 'zod';
+
+import { apiFetch } from './errors';
+import { parseResponse, readJson } from './validation';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * Longest list name accepted by the backend
+ */
+export const LIST_NAME_MAX_LENGTH = 100;
+
+/**
+ * Products of a shared list loaded at a time (one product sheet request
+ * each), on the server and per "load more" in the browser
+ *
+ * Shared lists are public, so a long list must not fan out into as many
+ * backend requests per view.
+ */
+export const SHARED_LIST_PAGE_SIZE = 12;
+
+/**
+ * Product list of the logged-in user
+ */
+export const productListSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  /** The user's favorites list */
+  isFavorites: z.boolean(),
+  /** Products in the order they were added */
+  productIds: z.array(z.number()),
+  /** Token of the public link, or null when the list is not shared */
+  shareToken: z.string().nullable(),
+});
+
+export type ProductList = z.infer<typeof productListSchema>;
+
+/**
+ * Shared (public) product list, as seen by anyone with the link
+ */
+export type SharedProductList = Pick<ProductList, 'name' | 'productIds'>;
+
+/**
+ * Name of a new or renamed list
+ */
+export const listNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(LIST_NAME_MAX_LENGTH);
+
+// ============================================================================
+// WebAPI Response Schemas (raw)
+// ============================================================================
+
+const webApiListSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: z.enum(['favorites', 'custom']),
+  position: z.number(),
+  productIds: z.array(z.number()),
+  shareToken: z.string().nullable(),
+});
+
+type WebApiList = z.infer<typeof webApiListSchema>;
+
+const webApiSharedListSchema = z.object({
+  name: z.string(),
+  productIds: z.array(z.number()),
+});
+
+const WEBAPI_API_URL = process.env.NEXT_PUBLIC_WEBAPI_API_URL;
+
+if (!WEBAPI_API_URL) {
+  throw new Error('NEXT_PUBLIC_WEBAPI_API_URL environment variable is not set');
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Map a WebAPI list to a ProductList
+ */
+function mapList(raw: WebApiList): ProductList {
+  return {
+    id: raw.id,
+    name: raw.name,
+    isFavorites: raw.type === 'favorites',
+    productIds: raw.productIds,
+    shareToken: raw.shareToken,
+  };
+}
+
+/**
+ * Request a lists endpoint on behalf of the logged-in user
+ */
+function fetchLists(
+  path: string,
+  token: string,
+  init: RequestInit,
+  source: string
+): Promise<Response> {
+  return apiFetch(
+    `${WEBAPI_API_URL}/api/Lists${path}`,
+    {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      cache: 'no-store',
+    },
+    source
+  );
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Get the lists of the logged-in user, in the user's order
+ *
+ * The favorites list is always included.
+ *
+ * @throws UnauthorizedError when the token is invalid or expired
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function getLists(token: string): Promise<ProductList[]> {
+  const source = 'WebAPI lists';
+  const response = await fetchLists('', token, { method: 'GET' }, source);
+
+  return parseResponse(
+    z.array(webApiListSchema),
+    await readJson(response, source),
+    source
+  )
+    .toSorted((a, b) => a.position - b.position)
+    .map(mapList);
+}
+
+/**
+ * Create a named list (added after the existing lists)
+ *
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function createList(
+  token: string,
+  name: string
+): Promise<ProductList> {
+  const source = 'WebAPI list creation';
+  const response = await fetchLists(
+    '',
+    token,
+    { method: 'POST', body: JSON.stringify({ name }) },
+    source
+  );
+
+  return mapList(
+    parseResponse(webApiListSchema, await readJson(response, source), source)
+  );
+}
+
+/**
+ * Rename a named list
+ *
+ * @throws NotFoundError when the list does not exist (or is not the user's)
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function renameList(
+  token: string,
+  listId: number,
+  name: string
+): Promise<ProductList> {
+  const source = 'WebAPI list rename';
+  const response = await fetchLists(
+    `/${listId.toString()}`,
+    token,
+    { method: 'PATCH', body: JSON.stringify({ name }) },
+    source
+  );
+
+  return mapList(
+    parseResponse(webApiListSchema, await readJson(response, source), source)
+  );
+}
+
+/**
+ * Delete a named list
+ *
+ * @throws NotFoundError when the list does not exist (or is not the user's)
+ * @throws ApiError when the request fails
+ */
+export async function deleteList(token: string, listId: number): Promise<void> {
+  await fetchLists(
+    `/${listId.toString()}`,
+    token,
+    { method: 'DELETE' },
+    'WebAPI list deletion'
+  );
+}
+
+/**
+ * Reorder the lists
+ *
+ * @param listIds - All list IDs of the user, in the new order
+ * @throws ApiError when the request fails
+ */
+export async function reorderLists(
+  token: string,
+  listIds: number[]
+): Promise<void> {
+  await fetchLists(
+    '/Order',
+    token,
+    { method: 'PUT', body: JSON.stringify({ listIds }) },
+    'WebAPI list reorder'
+  );
+}
+
+/**
+ * Add a product to a list (no-op when it is already in the list)
+ *
+ * @throws NotFoundError when the list does not exist (or is not the user's)
+ * @throws ApiError when the request fails
+ */
+export async function addListProduct(
+  token: string,
+  listId: number,
+  productId: number
+): Promise<void> {
+  await fetchLists(
+    `/${listId.toString()}/Products/${productId.toString()}`,
+    token,
+    { method: 'PUT' },
+    'WebAPI list product addition'
+  );
+}
+
+/**
+ * Remove a product from a list (no-op when it is not in the list)
+ *
+ * @throws NotFoundError when the list does not exist (or is not the user's)
+ * @throws ApiError when the request fails
+ */
+export async function removeListProduct(
+  token: string,
+  listId: number,
+  productId: number
+): Promise<void> {
+  await fetchLists(
+    `/${listId.toString()}/Products/${productId.toString()}`,
+    token,
+    { method: 'DELETE' },
+    'WebAPI list product removal'
+  );
+}
+
+/**
+ * Share a list (issues a share token) or stop sharing it (revokes it)
+ *
+ * Sharing an already shared list keeps its token, so earlier links keep
+ * working.
+ *
+ * @throws NotFoundError when the list does not exist (or is not the user's)
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function setListShared(
+  token: string,
+  listId: number,
+  shared: boolean
+): Promise<ProductList> {
+  const source = 'WebAPI list sharing';
+  const response = await fetchLists(
+    `/${listId.toString()}/Share`,
+    token,
+    { method: shared ? 'POST' : 'DELETE' },
+    source
+  );
+
+  return mapList(
+    parseResponse(webApiListSchema, await readJson(response, source), source)
+  );
+}
+
+/**
+ * Get a shared list by its share token (public, no session needed)
+ *
+ * @throws NotFoundError when the token is unknown or sharing was stopped
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function getSharedList(
+  shareToken: string
+): Promise<SharedProductList> {
+  const source = 'WebAPI shared list';
+  const response = await apiFetch(
+    `${WEBAPI_API_URL}/api/Lists/Shared/${encodeURIComponent(shareToken)}`,
+    { cache: 'no-store' },
+    source
+  );
+
+  return parseResponse(
+    webApiSharedListSchema,
+    await readJson(response, source),
+    source
+  );
+}
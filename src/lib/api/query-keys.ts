@@ -14,18 +14,34 @@
  * productKeys.all // ['products']
  * productKeys.lists() // ['products', 'list']
  * productKeys.list({ keyword: 'tomato' }) // ['products', 'list', { keyword: 'tomato' }]
+ * productKeys.infinite({ keyword: 'tomato' }) // ['products', 'list', { keyword: 'tomato' }, 'infinite']
  * productKeys.details() // ['products', 'detail']
  * productKeys.detail(123) // ['products', 'detail', 123]
+ * productKeys.autocomplete('tom', 'nl') // ['products', 'autocomplete', 'nl', 'tom']
  */
 export const productKeys = {
   all: ['products'] as const,
   lists: () => [...productKeys.all, 'list'] as const,
   list: <T extends Record<string, unknown>>(params: T) =>
     [...productKeys.lists(), params] as const,
+  infinite: <T extends Record<string, unknown>>(params: T) =>
+    [...productKeys.list(params), 'infinite'] as const,
   details: () => [...productKeys.all, 'detail'] as const,
   detail: (id: number | string) => [...productKeys.details(), id] as const,
-  autocomplete: (keyword: string) =>
-    [...productKeys.all, 'autocomplete', keyword] as const,
+  autocomplete: (keyword: string, locale: string) =>
+    [...productKeys.all, 'autocomplete', locale, keyword] as const,
+} as const;
+
+/**
+ * Product list (favorites and named lists) query keys
+ *
+ * @example
+ * listKeys.all // ['lists']
+ * listKeys.mine() // ['lists', 'mine']
+ */
+export const listKeys = {
+  all: ['lists'] as const,
+  mine: () => [...listKeys.all, 'mine'] as const,
 } as const;
 
 /**
@@ -37,6 +53,8 @@ export const productKeys = {
  * brandKeys.list({ page: 1 }) // ['brands', 'list', { page: 1 }]
  * brandKeys.details() // ['brands', 'detail']
  * brandKeys.detail(456) // ['brands', 'detail', 456]
+ * brandKeys.products(456) // ['brands', 'detail', 456, 'products']
+ * brandKeys.productList(456, { page: 1 }) // ['brands', 'detail', 456, 'products', { page: 1 }]
  */
 export const brandKeys = {
   all: ['brands'] as const,
@@ -47,6 +65,10 @@ export const brandKeys = {
   detail: (id: number | string) => [...brandKeys.details(), id] as const,
   products: (id: number | string) =>
     [...brandKeys.detail(id), 'products'] as const,
+  productList: <T extends Record<string, unknown>>(
+    id: number | string,
+    params: T
+  ) => [...brandKeys.products(id), params] as const,
 } as const;
 
 /**
@@ -55,9 +77,11 @@ export const brandKeys = {
  * @example
  * blogKeys.all // ['blog']
  * blogKeys.lists() // ['blog', 'list']
- * blogKeys.list({ category: 'recipes' }) // ['blog', 'list', { category: 'recipes' }]
+ * blogKeys.list({ categories: [3], locale: 'nl' }) // ['blog', 'list', { categories: [3], locale: 'nl' }]
  * blogKeys.details() // ['blog', 'detail']
- * blogKeys.detail('my-post-slug') // ['blog', 'detail', 'my-post-slug']
+ * blogKeys.detail('my-post-slug', 'nl') // ['blog', 'detail', 'nl', 'my-post-slug']
+ * blogKeys.categories('nl') // ['blog', 'categories', 'nl']
+ * blogKeys.tags('nl') // ['blog', 'tags', 'nl']
  */
 export const blogKeys = {
   all: ['blog'] as const,
@@ -65,9 +89,11 @@ export const blogKeys = {
   list: <T extends Record<string, unknown>>(params: T) =>
     [...blogKeys.lists(), params] as const,
   details: () => [...blogKeys.all, 'detail'] as const,
-  detail: (slug: string) => [...blogKeys.details(), slug] as const,
-  categories: () => [...blogKeys.all, 'categories'] as const,
-  tags: () => [...blogKeys.all, 'tags'] as const,
+  detail: (slug: string, locale: string) =>
+    [...blogKeys.details(), locale, slug] as const,
+  categories: (locale: string) =>
+    [...blogKeys.all, 'categories', locale] as const,
+  tags: (locale: string) => [...blogKeys.all, 'tags', locale] as const,
 } as const;
 
 /**
@@ -89,15 +115,18 @@ export const wordpressKeys = {
 } as const;
 
 /**
- * Filter query keys
+ * Filter (facet) query keys
  *
  * @example
  * filterKeys.all // ['filters']
- * filterKeys.list() // ['filters', 'list']
+ * filterKeys.lists() // ['filters', 'list']
+ * filterKeys.list({ keyword: 'tomato' }) // ['filters', 'list', { keyword: 'tomato' }]
  */
 export const filterKeys = {
   all: ['filters'] as const,
-  list: () => [...filterKeys.all, 'list'] as const,
+  lists: () => [...filterKeys.all, 'list'] as const,
+  list: <T extends Record<string, unknown>>(params: T) =>
+    [...filterKeys.lists(), params] as const,
 } as const;
 
 /**
@@ -105,10 +134,16 @@ export const filterKeys = {
  *
  * @example
  * authKeys.session() // ['auth', 'session']
- * authKeys.user() // ['auth', 'user']
  */
 export const authKeys = {
   all: ['auth'] as const,
   session: () => [...authKeys.all, 'session'] as const,
-  user: () => [...authKeys.all, 'user'] as const,
 } as const;
+
+/**
+ * Root keys of user-specific queries
+ *
+ * Invalidated when the logged-in user changes (see invalidateUserQueries).
+ * Add the root key of every query whose data depends on the user.
+ */
+export const userQueryKeys = [authKeys.all, listKeys.all] as const;
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+
+import { NetworkError, ValidationError } from './errors';
+import { parseResponse, readJson } from './validation';
+
+const source = 'Test endpoint';
+
+describe('parseResponse', () => {
+  const schema = z.object({
+    name: z.string(),
+    items: z.array(z.object({ price: z.number() })),
+  });
+
+  it('returns the parsed data', () => {
+    const data = { name: 'Tomato', items: [{ price: 1.5 }] };
+
+    expect(parseResponse(schema, data, source)).toEqual(data);
+  });
+
+  it('throws a ValidationError with the issue paths', () => {
+    const data = { name: null, items: [{ price: 1 }, { price: '2' }] };
+
+    let error: unknown;
+    try {
+      parseResponse(schema, data, source);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).source).toBe(source);
+    expect((error as ValidationError).issues).toEqual([
+      expect.objectContaining({
+        path: 'name',
+        expected: 'string',
+        received: 'null',
+      }),
+      expect.objectContaining({
+        path: 'items[1].price',
+        expected: 'number',
+        received: 'string',
+      }),
+    ]);
+    expect((error as ValidationError).retryable).toBe(false);
+  });
+});
+
+describe('readJson', () => {
+  it('decodes a JSON body', async () => {
+    const response = new Response('{"id":1}', {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    await expect(readJson(response, source)).resolves.toEqual({ id: 1 });
+  });
+
+  it('throws a ValidationError for bodies that are not JSON', async () => {
+    const response = new Response('<html>Maintenance</html>', {
+      headers: { 'Content-Type': 'text/html' },
+    });
+
+    const error = await readJson(response, source).catch(
+      (caught: unknown) => caught
+    );
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).issues[0]).toMatchObject({
+      expected: 'JSON',
+      received: 'text/html',
+    });
+  });
+
+  it('throws a NetworkError when the body cannot be read', async () => {
+    const response = new Response('{}');
+    await response.text();
+
+    await expect(readJson(response, source)).rejects.toBeInstanceOf(
+      NetworkError
+    );
+  });
+});
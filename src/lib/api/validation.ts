@@ -0,0 +1,140 @@
+/**
+ * API response validation
+ *
+ * Validates untrusted API payloads against zod schemas at the fetch
+ * boundary, so shape drift in a backend surfaces as a single structured
+ * error instead of an undefined access deep inside a component.
+ */
+
+import { NetworkError, ValidationError, type ValidationIssue } from './errors';
+
+import type { z } from 'zod';
+
+/**
+ * Format a zod issue path as `a.b[0].c`
+ */
+function formatPath(path: readonly PropertyKey[]): string {
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') {
+      return `${result}[${segment.toString()}]`;
+    }
+    const key = String(segment);
+    return result ? `${result}.${key}` : key;
+  }, '');
+}
+
+/**
+ * Resolve the value at a zod issue path within the original input
+ */
+function valueAtPath(input: unknown, path: readonly PropertyKey[]): unknown {
+  let current: unknown = input;
+
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<PropertyKey, unknown>)[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Describe the runtime type of a value (distinguishing null and arrays)
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Convert a zod issue into a ValidationIssue
+ */
+function toValidationIssue(
+  issue: z.core.$ZodIssue,
+  input: unknown
+): ValidationIssue {
+  return {
+    path: formatPath(issue.path),
+    expected: issue.code === 'invalid_type' ? issue.expected : issue.code,
+    received: describeType(valueAtPath(input, issue.path)),
+    message: issue.message,
+  };
+}
+
+/**
+ * Read the JSON body of an API response
+ *
+ * Bodies that are not JSON (e.g. the HTML page of a proxy or maintenance
+ * mode, served with status 200) become a ValidationError instead of a
+ * SyntaxError, so callers only ever see ApiErrors.
+ *
+ * @param source - Endpoint/resource name used in error messages
+ * @returns The decoded body, to be checked with parseResponse
+ * @throws ValidationError when the body is not valid JSON
+ * @throws NetworkError when the body could not be read
+ */
+export async function readJson(
+  response: Response,
+  source: string
+): Promise<unknown> {
+  let body: string;
+
+  try {
+    body = await response.text();
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw error;
+    }
+    throw new NetworkError(source, error);
+  }
+
+  try {
+    return JSON.parse(body) as unknown;
+  } catch {
+    throw new ValidationError(source, [
+      {
+        path: '',
+        expected: 'JSON',
+        received: response.headers.get('Content-Type') ?? 'unknown',
+        message: 'Response body is not valid JSON',
+      },
+    ]);
+  }
+}
+
+/**
+ * Parse an API response with a zod schema
+ *
+ * @param schema - Schema describing the expected response
+ * @param data - Raw (already JSON-decoded) response body
+ * @param source - Endpoint/resource name used in error messages
+ * @returns The parsed (typed) data
+ * @throws ValidationError when the data does not match the schema
+ *
+ * @example
+ * ```ts
+ * const menu = parseResponse(
+ *   wordPressMenuSchema,
+ *   await readJson(response, source),
+ *   `WordPress menu "${slug}"`
+ * );
+ * ```
+ */
+export function parseResponse<T extends z.ZodType>(
+  schema: T,
+  data: unknown,
+  source: string
+): z.output<T> {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    throw new ValidationError(
+      source,
+      result.error.issues.map((issue) => toValidationIssue(issue, data))
+    );
+  }
+
+  return result.data;
+}
@@ -0,0 +1,160 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { ValidationError } from './errors';
+import {
+  getWordPressCacheTags,
+  getWordPressMenu,
+  getWordPressPage,
+  isInternalUrl,
+  toPagePath,
+  toPlainText,
+} from './wordpress';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('toPlainText', () => {
+  it('strips tags', () => {
+    expect(toPlainText('<p>Tom <em>tips</em></p>\n')).toBe('Tom tips');
+  });
+
+  it('decodes numeric and named entities', () => {
+    expect(toPlainText('Tom&#8217;s &amp; Jerry&#x2019;s&hellip;')).toBe(
+      'Tom’s & Jerry’s…'
+    );
+  });
+
+  it('keeps unknown and invalid references as is', () => {
+    expect(toPlainText('&foo; &#99999999; &#x110000;')).toBe(
+      '&foo; &#99999999; &#x110000;'
+    );
+  });
+});
+
+describe('isInternalUrl', () => {
+  it('treats relative paths as internal', () => {
+    expect(isInternalUrl('/over-ons')).toBe(true);
+  });
+
+  it('treats protocol-relative URLs as external', () => {
+    expect(isInternalUrl('//evil.test/path')).toBe(false);
+    expect(isInternalUrl('/\\evil.test/path')).toBe(false);
+  });
+
+  it('compares absolute URLs with the WordPress host', () => {
+    expect(isInternalUrl('https://wordpress.test/over-ons/')).toBe(true);
+    expect(isInternalUrl('https://example.test/over-ons/')).toBe(false);
+  });
+
+  it('treats invalid URLs as external', () => {
+    expect(isInternalUrl('not a url')).toBe(false);
+  });
+});
+
+describe('toPagePath', () => {
+  it('strips the host, locale prefix and trailing slash', () => {
+    expect(toPagePath('https://wordpress.test/nl/over-ons/team/')).toBe(
+      '/over-ons/team'
+    );
+  });
+
+  it('keeps paths without locale prefix', () => {
+    expect(toPagePath('/over-ons/')).toBe('/over-ons');
+  });
+});
+
+describe('getWordPressMenu', () => {
+  it('returns null for unknown menus', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.resolve(new Response(null, { status: 404 })))
+    );
+
+    await expect(getWordPressMenu('main')).resolves.toBeNull();
+  });
+
+  it('throws a ValidationError for HTML responses', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() =>
+        Promise.resolve(
+          new Response('<!doctype html>', {
+            headers: { 'Content-Type': 'text/html' },
+          })
+        )
+      )
+    );
+
+    await expect(getWordPressMenu('main')).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+});
+
+describe('getWordPressPage', () => {
+  const page = {
+    id: 3,
+    title: { rendered: 'Over ons' },
+    content: { rendered: '<p>Hallo</p>' },
+    slug: 'over-ons',
+    link: 'https://wordpress.test/nl/over-ons/',
+    date: '2026-01-01T00:00:00',
+    modified: '2026-01-02T00:00:00',
+    _links: {},
+  };
+
+  it('requests the page by slug and locale', async () => {
+    const fetchMock = vi.fn(() =>
+      Promise.resolve(new Response(JSON.stringify([page])))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(getWordPressPage('over-ons', 'nl')).resolves.toEqual(page);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://wordpress.test/wp-json/wp/v2/pages?slug=over-ons&lang=nl',
+      expect.anything()
+    );
+  });
+
+  it('returns null when no page has the slug', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => Promise.resolve(new Response('[]')))
+    );
+
+    await expect(getWordPressPage('unknown')).resolves.toBeNull();
+  });
+});
+
+describe('getWordPressCacheTags', () => {
+  it('tags a page in all locales', () => {
+    expect(getWordPressCacheTags({ type: 'page', slug: 'over-ons' })).toEqual(
+      expect.arrayContaining([
+        'wordpress:page:default:over-ons',
+        'wordpress:page:nl:over-ons',
+        'wordpress:page:fr:over-ons',
+      ])
+    );
+  });
+
+  it('invalidates the post lists and terms with a post', () => {
+    expect(getWordPressCacheTags({ type: 'post', slug: 'tips' })).toEqual(
+      expect.arrayContaining([
+        'wordpress:post:en:tips',
+        'wordpress:posts:en',
+        'wordpress:categories:en',
+        'wordpress:tags:en',
+      ])
+    );
+  });
+
+  it('invalidates the taxonomy with a category or tag', () => {
+    expect(getWordPressCacheTags({ type: 'category', slug: 'news' })).toContain(
+      'wordpress:categories:de'
+    );
+    expect(getWordPressCacheTags({ type: 'tag', slug: 'vegan' })).toContain(
+      'wordpress:tags:default'
+    );
+  });
+});
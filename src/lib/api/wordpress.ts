@@ -3,74 +3,256 @@
  *
  * Handles fetching data from the WordPress REST API.
  * Uses the WP REST API v2 for pages, posts, and custom menu endpoints.
+ * Responses are validated with zod; the types are derived from the schemas.
  */
 
-import type { Locale } from '@/i18n/config';
+import { z } from 'zod';
+
+import { isValidLocale, locales, type Locale } from '@/i18n/config';
+
+import { apiFetch, NotFoundError } from './errors';
+import { parseResponse, readJson } from './validation';
 
 /**
  * WordPress menu item from the WP REST API Menus plugin
  */
-export interface WordPressMenuItem {
-  ID: number;
-  title: string;
-  url: string;
-  attr_title: string;
-  description: string;
-  classes: string[];
-  target: string;
-  xfn: string;
-  menu_order: number;
-  object_id: number;
-  object: string;
-  type: string;
-  type_label: string;
-  children?: WordPressMenuItem[];
-}
+export const wordPressMenuItemSchema = z.object({
+  ID: z.number(),
+  title: z.string(),
+  url: z.string(),
+  attr_title: z.string(),
+  description: z.string(),
+  classes: z.array(z.string()),
+  target: z.string(),
+  xfn: z.string(),
+  menu_order: z.number(),
+  object_id: z.number(),
+  object: z.string(),
+  type: z.string(),
+  type_label: z.string(),
+  get children() {
+    return z.array(wordPressMenuItemSchema).optional();
+  },
+});
+
+export type WordPressMenuItem = z.infer<typeof wordPressMenuItemSchema>;
 
 /**
  * WordPress menu response
  */
-export interface WordPressMenu {
-  ID: number;
-  name: string;
-  slug: string;
-  description: string;
-  count: number;
-  items: WordPressMenuItem[];
-}
+export const wordPressMenuSchema = z.object({
+  ID: z.number(),
+  name: z.string(),
+  slug: z.string(),
+  description: z.string(),
+  count: z.number(),
+  items: z.array(wordPressMenuItemSchema),
+});
+
+export type WordPressMenu = z.infer<typeof wordPressMenuSchema>;
 
 /**
  * WordPress page response
  */
-export interface WordPressPage {
-  id: number;
-  title: {
-    rendered: string;
-  };
-  content: {
-    rendered: string;
-  };
-  slug: string;
-  date: string;
-  modified: string;
-  excerpt?: {
-    rendered: string;
-  };
-  featured_media?: number;
-  _links: {
-    'wp:featuredmedia'?: Array<{
-      href: string;
-    }>;
-  };
+export const wordPressPageSchema = z.object({
+  id: z.number(),
+  title: z.object({
+    rendered: z.string(),
+  }),
+  content: z.object({
+    rendered: z.string(),
+  }),
+  slug: z.string(),
+  link: z.string(),
+  date: z.string(),
+  modified: z.string(),
+  excerpt: z
+    .object({
+      rendered: z.string(),
+    })
+    .optional(),
+  featured_media: z.number().optional(),
+  _links: z.object({
+    'wp:featuredmedia': z
+      .array(
+        z.object({
+          href: z.string(),
+        })
+      )
+      .optional(),
+  }),
+});
+
+export type WordPressPage = z.infer<typeof wordPressPageSchema>;
+
+/**
+ * WordPress media item, as embedded via `_embed=wp:featuredmedia`
+ */
+export const wordPressMediaSchema = z.object({
+  id: z.number(),
+  source_url: z.string(),
+  alt_text: z.string(),
+  media_details: z
+    .object({
+      width: z.number().optional(),
+      height: z.number().optional(),
+    })
+    .optional(),
+});
+
+export type WordPressMedia = z.infer<typeof wordPressMediaSchema>;
+
+/**
+ * WordPress author, as embedded via `_embed=author`
+ */
+export const wordPressAuthorSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+});
+
+/**
+ * Error object WordPress embeds in place of a resource that is not
+ * accessible (e.g. private media)
+ */
+const wordPressEmbedErrorSchema = z.object({
+  code: z.string(),
+});
+
+/**
+ * WordPress post response (requested with `_embed`)
+ */
+export const wordPressPostSchema = wordPressPageSchema.extend({
+  categories: z.array(z.number()),
+  tags: z.array(z.number()),
+  author: z.number(),
+  _embedded: z
+    .object({
+      'wp:featuredmedia': z
+        .array(z.union([wordPressMediaSchema, wordPressEmbedErrorSchema]))
+        .optional(),
+      author: z
+        .array(z.union([wordPressAuthorSchema, wordPressEmbedErrorSchema]))
+        .optional(),
+    })
+    .optional(),
+});
+
+export type WordPressPost = z.infer<typeof wordPressPostSchema>;
+
+/**
+ * Page of WordPress posts with the totals from the X-WP-* headers
+ */
+export interface WordPressPostList {
+  posts: WordPressPost[];
+  total: number;
+  totalPages: number;
 }
 
 /**
- * WordPress post response
+ * WordPress post list filters
  */
-export interface WordPressPost extends WordPressPage {
-  categories: number[];
-  tags: number[];
-  author: number;
+export interface WordPressPostParams extends Record<string, unknown> {
+  page?: number;
+  per_page?: number;
+  categories?: number[];
+  tags?: number[];
+  /** Post IDs to leave out (e.g. the current post for related posts) */
+  exclude?: number[];
+  locale?: Locale;
+}
+
+/**
+ * WordPress category or tag
+ */
+export const wordPressTermSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string(),
+  count: z.number(),
+});
+
+export type WordPressTerm = z.infer<typeof wordPressTermSchema>;
+
+/**
+ * Options for fetching WordPress content
+ */
+export interface WordPressFetchOptions {
+  /**
+   * Include unpublished content and unsaved changes (draft mode)
+   *
+   * Server-only: requests are authenticated with the preview application
+   * password and bypass the cache.
+   */
+  preview?: boolean;
+}
+
+/**
+ * Blog taxonomies (REST API route names)
+ */
+type WordPressTaxonomy = 'categories' | 'tags';
+
+/**
+ * Next.js cache tags of the WordPress fetches, for on-demand revalidation
+ *
+ * Pages, posts, post lists and terms are fetched per locale (or without
+ * one), so their tags are scoped by locale; see getWordPressCacheTags for
+ * all tags of a resource.
+ */
+export const wordPressCacheTags = {
+  menu: (slug: string) => `wordpress:menu:${slug}`,
+  page: (slug: string, locale?: Locale) =>
+    `wordpress:page:${locale ?? 'default'}:${slug}`,
+  post: (slug: string, locale?: Locale) =>
+    `wordpress:post:${locale ?? 'default'}:${slug}`,
+  posts: (locale?: Locale) => `wordpress:posts:${locale ?? 'default'}`,
+  terms: (taxonomy: WordPressTaxonomy, locale?: Locale) =>
+    `wordpress:${taxonomy}:${locale ?? 'default'}`,
+};
+
+/**
+ * WordPress resource that can be revalidated
+ */
+export type WordPressCacheResource =
+  | { type: 'menu'; slug: string }
+  | { type: 'page'; slug: string }
+  | { type: 'post'; slug: string }
+  | { type: 'category'; slug: string }
+  | { type: 'tag'; slug: string };
+
+/**
+ * Get the cache tags of a resource in all locales
+ *
+ * A post also invalidates the post lists, where it may appear (or
+ * disappear from), and the terms, as only terms with posts are listed.
+ * Terms are fetched as a whole, so a category or tag invalidates its
+ * taxonomy.
+ */
+export function getWordPressCacheTags(
+  resource: WordPressCacheResource
+): string[] {
+  const scopes = [undefined, ...locales];
+
+  switch (resource.type) {
+    case 'menu':
+      return [wordPressCacheTags.menu(resource.slug)];
+    case 'page':
+      return scopes.map((locale) =>
+        wordPressCacheTags.page(resource.slug, locale)
+      );
+    case 'post':
+      return scopes.flatMap((locale) => [
+        wordPressCacheTags.post(resource.slug, locale),
+        wordPressCacheTags.posts(locale),
+        wordPressCacheTags.terms('categories', locale),
+        wordPressCacheTags.terms('tags', locale),
+      ]);
+    case 'category':
+      return scopes.map((locale) =>
+        wordPressCacheTags.terms('categories', locale)
+      );
+    case 'tag':
+      return scopes.map((locale) => wordPressCacheTags.terms('tags', locale));
+  }
 }
 
 const WP_API_URL = process.env.NEXT_PUBLIC_WP_API_URL;
@@ -84,123 +266,491 @@ if (!WP_API_URL) {
  *
  * Requires the WP REST API Menus plugin
  * @see https://wordpress.org/plugins/wp-rest-api-menus/
+ *
+ * @returns The menu, or null if it does not exist
+ * @throws ApiError when the request fails or the response is invalid
  */
 export async function getWordPressMenu(
   slug: string
 ): Promise<WordPressMenu | null> {
+  const source = `WordPress menu "${slug}"`;
+
   try {
-    const response = await fetch(
+    const response = await apiFetch(
       `${WP_API_URL}/menus/v1/menus/${encodeURIComponent(slug)}`,
       {
-      next: {
-        revalidate: 3600, // Cache for 1 hour
+        next: {
+          revalidate: 3600, // Cache for 1 hour
+          tags: [wordPressCacheTags.menu(slug)],
+        },
       },
-    });
+      source
+    );
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        return null;
-      }
-      throw new Error(
-        `WordPress API error: ${response.status.toString()} ${response.statusText}`
-      );
-    }
-
-    return (await response.json()) as WordPressMenu;
+    return parseResponse(
+      wordPressMenuSchema,
+      await readJson(response, source),
+      source
+    );
   } catch (error) {
-    console.error(`Failed to fetch WordPress menu "${slug}":`, error);
-    return null;
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
   }
 }
 
 /**
  * Fetch a WordPress page by slug
+ *
+ * With `preview`, drafts and unsaved changes are included (see
+ * getWordPressPreviewItem).
+ *
+ * @returns The page, or null if no page has this slug
+ * @throws ApiError when the request fails or the response is invalid
  */
 export async function getWordPressPage(
   slug: string,
-  locale?: Locale
+  locale?: Locale,
+  options?: WordPressFetchOptions
 ): Promise<WordPressPage | null> {
-  try {
-    const params = new URLSearchParams({
-      slug,
-      ...(locale !== undefined && { lang: locale }),
-    });
+  const source = `WordPress page "${slug}"`;
 
-    const response = await fetch(
-      `${WP_API_URL}/wp/v2/pages?${params.toString()}`,
-      {
+  if (options?.preview) {
+    const item = await getWordPressPreviewItem('pages', slug, locale, source);
+    return item === null
+      ? null
+      : parseResponse(wordPressPageSchema, item, source);
+  }
+
+  const params = new URLSearchParams({
+    slug,
+    ...(locale !== undefined && { lang: locale }),
+  });
+
+  const response = await apiFetch(
+    `${WP_API_URL}/wp/v2/pages?${params.toString()}`,
+    {
       next: {
         revalidate: 3600, // Cache for 1 hour
+        tags: [wordPressCacheTags.page(slug, locale)],
       },
-    });
+    },
+    source
+  );
 
-    if (!response.ok) {
-      throw new Error(
-        `WordPress API error: ${response.status.toString()} ${response.statusText}`
-      );
-    }
+  const pages = parseResponse(
+    z.array(wordPressPageSchema),
+    await readJson(response, source),
+    source
+  );
 
-    const pages = (await response.json()) as WordPressPage[];
+  return pages[0] ?? null;
+}
 
-    if (pages.length === 0) {
-      return null;
-    }
+/**
+ * Related resources embedded in post responses
+ */
+const POST_EMBEDS = 'author,wp:featuredmedia';
 
-    return pages[0] ?? null;
-  } catch (error) {
-    console.error(`Failed to fetch WordPress page "${slug}":`, error);
-    return null;
-  }
+/**
+ * Fetch WordPress posts with optional filters
+ *
+ * Posts include their author and featured image (`_embed`).
+ *
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function getWordPressPosts(
+  params?: WordPressPostParams
+): Promise<WordPressPostList> {
+  const source = 'WordPress posts';
+  const searchParams = new URLSearchParams({
+    page: params?.page?.toString() ?? '1',
+    per_page: params?.per_page?.toString() ?? '10',
+    _embed: POST_EMBEDS,
+    ...(params?.categories !== undefined && {
+      categories: params.categories.join(','),
+    }),
+    ...(params?.tags !== undefined && { tags: params.tags.join(',') }),
+    ...(params?.exclude !== undefined && {
+      exclude: params.exclude.join(','),
+    }),
+    ...(params?.locale !== undefined && { lang: params.locale }),
+  });
+
+  const response = await apiFetch(
+    `${WP_API_URL}/wp/v2/posts?${searchParams.toString()}`,
+    {
+      next: {
+        revalidate: 600, // Cache for 10 minutes
+        tags: [wordPressCacheTags.posts(params?.locale)],
+      },
+    },
+    source
+  );
+
+  const posts = parseResponse(
+    z.array(wordPressPostSchema),
+    await readJson(response, source),
+    source
+  );
+
+  return {
+    posts,
+    total: Number(response.headers.get('X-WP-Total') ?? posts.length),
+    totalPages: Number(response.headers.get('X-WP-TotalPages') ?? 1),
+  };
 }
 
 /**
- * Fetch WordPress posts with optional filters
+ * Fetch a WordPress post by slug
+ *
+ * With `preview`, drafts and unsaved changes are included (see
+ * getWordPressPreviewItem).
+ *
+ * @returns The post, or null if no post has this slug
+ * @throws ApiError when the request fails or the response is invalid
  */
-export async function getWordPressPosts(params?: {
-  page?: number;
-  per_page?: number;
-  categories?: number[];
-  tags?: number[];
-  locale?: Locale;
-}): Promise<WordPressPost[]> {
-  try {
-    const searchParams = new URLSearchParams({
-      page: params?.page?.toString() ?? '1',
-      per_page: params?.per_page?.toString() ?? '10',
-      ...(params?.categories !== undefined && {
-        categories: params.categories.join(','),
-      }),
-      ...(params?.tags !== undefined && { tags: params.tags.join(',') }),
-      ...(params?.locale !== undefined && { lang: params.locale }),
-    });
+export async function getWordPressPost(
+  slug: string,
+  locale?: Locale,
+  options?: WordPressFetchOptions
+): Promise<WordPressPost | null> {
+  const source = `WordPress post "${slug}"`;
 
-    const response = await fetch(
-      `${WP_API_URL}/wp/v2/posts?${searchParams.toString()}`,
-      {
+  if (options?.preview) {
+    const item = await getWordPressPreviewItem('posts', slug, locale, source);
+    return item === null
+      ? null
+      : parseResponse(wordPressPostSchema, item, source);
+  }
+
+  const params = new URLSearchParams({
+    slug,
+    _embed: POST_EMBEDS,
+    ...(locale !== undefined && { lang: locale }),
+  });
+
+  const response = await apiFetch(
+    `${WP_API_URL}/wp/v2/posts?${params.toString()}`,
+    {
       next: {
         revalidate: 600, // Cache for 10 minutes
+        tags: [wordPressCacheTags.post(slug, locale)],
       },
+    },
+    source
+  );
+
+  const posts = parseResponse(
+    z.array(wordPressPostSchema),
+    await readJson(response, source),
+    source
+  );
+
+  return posts[0] ?? null;
+}
+
+/**
+ * Post statuses visible in preview (everything an editor can see)
+ */
+const PREVIEW_STATUSES = 'publish,future,draft,pending,private';
+
+/**
+ * Statuses of items that may not have a slug yet
+ */
+const UNPUBLISHED_STATUSES = 'future,draft,pending';
+
+/**
+ * Page or post fields needed to resolve previews
+ *
+ * Requested with `context=edit`, which adds `generated_slug`: the slug
+ * WordPress will assign on publishing. Drafts have an empty `slug` until
+ * then. Other fields are kept for the page/post schema.
+ */
+const wordPressPreviewItemSchema = z.looseObject({
+  id: z.number(),
+  slug: z.string(),
+  generated_slug: z.string().optional(),
+  link: z.string(),
+  modified: z.string(),
+});
+
+type WordPressPreviewItem = z.infer<typeof wordPressPreviewItemSchema>;
+
+/**
+ * Autosave revision, holding the unsaved changes of a published item
+ */
+const wordPressAutosaveSchema = z.object({
+  modified: z.string(),
+  title: z.object({ rendered: z.string() }),
+  content: z.object({ rendered: z.string() }),
+  excerpt: z.object({ rendered: z.string() }).optional(),
+});
+
+/**
+ * Request options for preview requests
+ *
+ * Authenticates with a WordPress application password (required for
+ * unpublished content) and bypasses the cache, so editors always see
+ * their latest changes.
+ *
+ * @throws Error when the preview credentials are not configured
+ */
+function getPreviewRequestInit(): RequestInit {
+  const username = process.env.WP_PREVIEW_USERNAME;
+  const password = process.env.WP_PREVIEW_APPLICATION_PASSWORD;
+
+  if (!username || !password) {
+    throw new Error(
+      'WP_PREVIEW_USERNAME and WP_PREVIEW_APPLICATION_PASSWORD environment variables are required for preview mode'
+    );
+  }
+
+  return {
+    cache: 'no-store',
+    headers: {
+      Authorization: `Basic ${btoa(`${username}:${password}`)}`,
+    },
+  };
+}
+
+/**
+ * Fetch a page or post by slug as editors see it
+ *
+ * Looks the slug up among all statuses, falling back to the generated
+ * slug of unpublished items. When the item has a newer autosave, its
+ * title, content and excerpt replace the saved ones.
+ *
+ * @returns The raw item (to be parsed by the caller), or null if no item
+ * has this slug
+ */
+async function getWordPressPreviewItem(
+  type: 'pages' | 'posts',
+  slug: string,
+  locale: Locale | undefined,
+  source: string
+): Promise<WordPressPreviewItem | null> {
+  const init = getPreviewRequestInit();
+  const fetchItems = async (params: Record<string, string>) => {
+    const searchParams = new URLSearchParams({
+      context: 'edit',
+      ...params,
+      ...(type === 'posts' && { _embed: POST_EMBEDS }),
+      ...(locale !== undefined && { lang: locale }),
     });
+    const response = await apiFetch(
+      `${WP_API_URL}/wp/v2/${type}?${searchParams.toString()}`,
+      init,
+      source
+    );
 
-    if (!response.ok) {
-      throw new Error(
-        `WordPress API error: ${response.status.toString()} ${response.statusText}`
-      );
-    }
+    return parseResponse(
+      z.array(wordPressPreviewItemSchema),
+      await readJson(response, source),
+      source
+    );
+  };
+
+  const [published] = await fetchItems({ slug, status: PREVIEW_STATUSES });
+  const item =
+    published ??
+    (await fetchItems({ status: UNPUBLISHED_STATUSES, per_page: '100' })).find(
+      (candidate) => candidate.generated_slug === slug
+    );
+
+  if (item === undefined) {
+    return null;
+  }
+
+  const response = await apiFetch(
+    `${WP_API_URL}/wp/v2/${type}/${String(item.id)}/autosaves`,
+    init,
+    source
+  );
+  const [autosave] = parseResponse(
+    z.array(wordPressAutosaveSchema),
+    await readJson(response, source),
+    source
+  );
 
-    return (await response.json()) as WordPressPost[];
+  if (autosave === undefined || autosave.modified <= item.modified) {
+    return item;
+  }
+
+  return {
+    ...item,
+    title: autosave.title,
+    content: autosave.content,
+    ...(autosave.excerpt !== undefined && { excerpt: autosave.excerpt }),
+  };
+}
+
+/**
+ * Page or post to open in preview mode
+ */
+export interface WordPressPreviewTarget {
+  /** Published or generated slug */
+  slug: string;
+  /** Permalink; a `?page_id=` style link for unpublished items */
+  link: string;
+}
+
+/**
+ * Resolve a page or post ID (from a WordPress preview link) to its slug
+ *
+ * Server-only, see WordPressFetchOptions.
+ *
+ * @returns The target, or null if no item has this ID
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export async function getWordPressPreviewTarget(
+  type: 'pages' | 'posts',
+  id: number
+): Promise<WordPressPreviewTarget | null> {
+  const source = `WordPress preview ${type} ${String(id)}`;
+
+  try {
+    const response = await apiFetch(
+      `${WP_API_URL}/wp/v2/${type}/${String(id)}?context=edit`,
+      getPreviewRequestInit(),
+      source
+    );
+    const item = parseResponse(
+      wordPressPreviewItemSchema,
+      await readJson(response, source),
+      source
+    );
+
+    return { slug: item.slug || (item.generated_slug ?? ''), link: item.link };
   } catch (error) {
-    console.error('Failed to fetch WordPress posts:', error);
-    return [];
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
   }
 }
 
+/**
+ * Fetch the (non-empty) categories or tags of the blog
+ */
+async function getWordPressTerms(
+  taxonomy: WordPressTaxonomy,
+  locale?: Locale
+): Promise<WordPressTerm[]> {
+  const source = `WordPress ${taxonomy}`;
+  const params = new URLSearchParams({
+    per_page: '100',
+    hide_empty: 'true',
+    orderby: 'name',
+    ...(locale !== undefined && { lang: locale }),
+  });
+
+  const response = await apiFetch(
+    `${WP_API_URL}/wp/v2/${taxonomy}?${params.toString()}`,
+    {
+      next: {
+        revalidate: 3600, // Cache for 1 hour
+        tags: [wordPressCacheTags.terms(taxonomy, locale)],
+      },
+    },
+    source
+  );
+
+  return parseResponse(
+    z.array(wordPressTermSchema),
+    await readJson(response, source),
+    source
+  );
+}
+
+/**
+ * Fetch the blog categories
+ *
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export function getWordPressCategories(
+  locale?: Locale
+): Promise<WordPressTerm[]> {
+  return getWordPressTerms('categories', locale);
+}
+
+/**
+ * Fetch the blog tags
+ *
+ * @throws ApiError when the request fails or the response is invalid
+ */
+export function getWordPressTags(locale?: Locale): Promise<WordPressTerm[]> {
+  return getWordPressTerms('tags', locale);
+}
+
+/**
+ * Get the embedded featured image of a post
+ *
+ * @returns The image, or null if the post has none (or it is not public)
+ */
+export function getFeaturedImage(post: WordPressPost): WordPressMedia | null {
+  const media = post._embedded?.['wp:featuredmedia']?.[0];
+  return media !== undefined && 'source_url' in media ? media : null;
+}
+
+/**
+ * Get the embedded author name of a post
+ */
+export function getPostAuthorName(post: WordPressPost): string | null {
+  const author = post._embedded?.author?.[0];
+  return author !== undefined && 'name' in author ? author.name : null;
+}
+
+/**
+ * Named entities WordPress commonly emits in titles and excerpts
+ */
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  hellip: '…',
+  ndash: '–',
+  mdash: '—',
+};
+
+/**
+ * Convert rendered WordPress HTML (titles, excerpts) to plain text
+ *
+ * Strips tags and decodes numeric and common named entities, e.g.
+ * `Tom&#8217;s <em>tips</em>` → `Tom's tips`.
+ */
+export function toPlainText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+      if (code.startsWith('#')) {
+        const codePoint =
+          code[1]?.toLowerCase() === 'x'
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+        // Keep invalid references as is (fromCodePoint throws on them)
+        return Number.isNaN(codePoint) || codePoint > 0x10ffff
+          ? entity
+          : String.fromCodePoint(codePoint);
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .trim();
+}
+
 /**
  * Helper to check if a URL is internal (relative or same domain)
+ *
+ * Protocol-relative URLs (`//host/path`, and `/\host/path`, which
+ * browsers treat the same) point to another host and are external.
  */
 export function isInternalUrl(url: string): boolean {
   if (url.startsWith('/')) {
-    return true;
+    return !/^\/[/\\]/.test(url);
   }
 
   try {
@@ -227,3 +777,15 @@ export function toRelativePath(url: string): string {
     return url;
   }
 }
+
+/**
+ * Helper to convert a WordPress page link to the page path, without
+ * locale prefix and trailing slash
+ * (`https://…/nl/over-ons/team/` → `/over-ons/team`)
+ */
+export function toPagePath(link: string): string {
+  const path = toRelativePath(link).replace(/\/+$/, '');
+  const [, prefix = '', rest = ''] = /^\/([^/]+)(.*)$/.exec(path) ?? [];
+
+  return isValidLocale(prefix) ? rest : path;
+}
@@ -0,0 +1,88 @@
+'use server';
+
+import { redirect } from 'next/navigation';
+
+import { getLocale } from 'next-intl/server';
+
+import { login, revokeRefreshToken } from '@/lib/api/auth';
+import {
+  getErrorMessageKey,
+  UnauthorizedError,
+  type ErrorMessageKey,
+} from '@/lib/api/errors';
+
+import {
+  loginSchema,
+  returnToSchema,
+  type LoginFormValues,
+} from './login-schema';
+import {
+  clearSessionCookies,
+  getRefreshToken,
+  setSessionCookies,
+} from './session';
+
+/**
+ * Why a login attempt failed: `invalidCredentials` (Auth.loginError) or a
+ * key in the `Errors` namespace
+ */
+export type LoginError = 'invalidCredentials' | ErrorMessageKey;
+
+/**
+ * Log in with email and password
+ *
+ * Authenticates against the backend, stores the issued tokens in the
+ * session and refresh cookies and redirects to `returnTo` (or the home
+ * page of the current locale). With "remember me" the cookies live as
+ * long as the tokens, otherwise until the browser closes.
+ *
+ * @returns The error when the login failed; redirects otherwise
+ */
+export async function loginAction(
+  values: LoginFormValues,
+  returnTo?: string
+): Promise<{ error: LoginError }> {
+  const result = loginSchema.safeParse(values);
+
+  if (!result.success) {
+    return { error: 'invalidCredentials' };
+  }
+
+  try {
+    const tokens = await login(result.data);
+
+    await setSessionCookies(tokens);
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return { error: 'invalidCredentials' };
+    }
+    console.error('Login failed:', error);
+    return { error: getErrorMessageKey(error) };
+  }
+
+  const target = returnToSchema.safeParse(returnTo);
+  redirect(target.success ? target.data : `/${await getLocale()}`);
+}
+
+/**
+ * Log out
+ *
+ * Revokes the refresh token, clears the session cookies and redirects to
+ * the home page of the current locale. A server action (POST, with the
+ * framework's origin check), so other sites cannot log users out with a
+ * link or image.
+ */
+export async function logoutAction(): Promise<void> {
+  const refreshToken = await getRefreshToken();
+
+  if (refreshToken) {
+    // Best effort: the cookies are cleared either way
+    await revokeRefreshToken(refreshToken).catch((error: unknown) => {
+      console.error('Failed to revoke refresh token:', error);
+    });
+  }
+
+  await clearSessionCookies();
+
+  redirect(`/${await getLocale()}`);
+}
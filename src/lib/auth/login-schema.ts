@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+import { isSameOriginPath } from '@/lib/same-origin-path';
+
+/**
+ * Login form values
+ *
+ * Error messages are keys in the `Auth` namespace, so the schema can be
+ * shared by the client-side form and the server action.
+ */
+export const loginSchema = z.object({
+  email: z.email({ error: 'invalidEmail' }),
+  password: z.string().min(1, { error: 'passwordRequired' }),
+  rememberMe: z.boolean(),
+});
+
+export type LoginFormValues = z.infer<typeof loginSchema>;
+
+/**
+ * Translation keys of the login validation errors
+ */
+export type LoginValidationKey = 'invalidEmail' | 'passwordRequired';
+
+/**
+ * Path to return to after login
+ *
+ * Only same-origin paths are accepted, to avoid an open redirect (see
+ * isSameOriginPath).
+ */
+export const returnToSchema = z.string().refine(isSameOriginPath);
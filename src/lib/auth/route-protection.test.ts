@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import { getRouteRequirement, meetsRequirement } from './route-protection';
+
+import type { Session } from './token';
+
+function session(user: Partial<Session['user']> = {}): Session {
+  return {
+    user: { id: 1, email: 'user@example.test', ...user },
+    expiresAt: new Date('2030-01-01'),
+  };
+}
+
+describe('getRouteRequirement', () => {
+  it('protects a route and the paths below it', () => {
+    expect(getRouteRequirement('/account', 'nl')).toEqual({});
+    expect(getRouteRequirement('/account/edit', 'en')).toEqual({});
+    expect(getRouteRequirement('/orders/12', 'de')).toEqual({});
+  });
+
+  it('does not protect other paths', () => {
+    expect(getRouteRequirement('/', 'nl')).toBeNull();
+    expect(getRouteRequirement('/product', 'nl')).toBeNull();
+    expect(getRouteRequirement('/login', 'nl')).toBeNull();
+  });
+
+  it('does not match paths that only share a prefix', () => {
+    expect(getRouteRequirement('/accounts', 'nl')).toBeNull();
+    expect(getRouteRequirement('/settings-help', 'nl')).toBeNull();
+  });
+});
+
+describe('meetsRequirement', () => {
+  it('only requires a session for an empty requirement', () => {
+    expect(meetsRequirement(session(), {})).toBe(true);
+  });
+
+  it('requires one of the roles', () => {
+    const requirement = { roles: ['admin', 'editor'] };
+
+    expect(meetsRequirement(session({ role: 'editor' }), requirement)).toBe(
+      true
+    );
+    expect(meetsRequirement(session({ role: 'viewer' }), requirement)).toBe(
+      false
+    );
+    expect(meetsRequirement(session(), requirement)).toBe(false);
+  });
+
+  it('requires all permissions', () => {
+    const requirement = { permissions: ['lists:read', 'lists:write'] };
+
+    expect(
+      meetsRequirement(
+        session({ permissions: ['lists:read', 'lists:write', 'orders:read'] }),
+        requirement
+      )
+    ).toBe(true);
+    expect(
+      meetsRequirement(session({ permissions: ['lists:read'] }), requirement)
+    ).toBe(false);
+    expect(meetsRequirement(session(), requirement)).toBe(false);
+  });
+});
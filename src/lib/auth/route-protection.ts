@@ -0,0 +1,78 @@
+import type { Locale } from '@/i18n/config';
+import { routing, type Pathnames } from '@/i18n/routing';
+
+import type { Session } from './token';
+
+/**
+ * Access requirement of a route
+ *
+ * An empty requirement only requires a session.
+ */
+export interface RouteRequirement {
+  /** The user needs one of these roles */
+  roles?: string[];
+  /** The user needs all of these permissions */
+  permissions?: string[];
+}
+
+/**
+ * Protected routes, by routing pathname
+ *
+ * Covers the pathname and everything below it in all locales, and is
+ * enforced in middleware. Add new routes here, e.g.
+ * `'/admin': { roles: ['admin'] }` (after declaring the pathname in
+ * routing.ts).
+ */
+export const protectedRoutes = {
+  '/account': {},
+  '/orders': {},
+  '/settings': {},
+} satisfies Partial<Record<Pathnames, RouteRequirement>>;
+
+/**
+ * Localized path of a routing pathname (without locale prefix)
+ */
+function toLocalizedPathname(pathname: Pathnames, locale: Locale): string {
+  const localized: string | Record<Locale, string> =
+    routing.pathnames[pathname];
+  return typeof localized === 'string' ? localized : localized[locale];
+}
+
+/**
+ * Get the requirement for a path
+ *
+ * @param path - Localized path without locale prefix, e.g. `/account/edit`
+ * @returns The requirement, or null if the path is public
+ */
+export function getRouteRequirement(
+  path: string,
+  locale: Locale
+): RouteRequirement | null {
+  for (const [pathname, requirement] of Object.entries(protectedRoutes)) {
+    const protectedPath = toLocalizedPathname(pathname as Pathnames, locale);
+
+    if (path === protectedPath || path.startsWith(`${protectedPath}/`)) {
+      return requirement;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a session meets a requirement
+ */
+export function meetsRequirement(
+  session: Session,
+  requirement: RouteRequirement
+): boolean {
+  const { role, permissions = [] } = session.user;
+
+  return (
+    (requirement.roles === undefined ||
+      (role !== undefined && requirement.roles.includes(role))) &&
+    (requirement.permissions ?? []).every((permission) =>
+      permissions.includes(permission)
+    )
+  );
+}
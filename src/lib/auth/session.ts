@@ -1,65 +1,35 @@
 import { cookies } from 'next/headers';
+import { forbidden } from 'next/navigation';
 
-import { jwtVerify, type JWTPayload } from 'jose';
+import { getLocale } from 'next-intl/server';
 
-/**
- * JWT Session payload structure
- * Extend this interface based on your actual JWT payload
- */
-export interface SessionPayload extends JWTPayload {
-  userId: number;
-  email: string;
-  name?: string;
-  role?: string;
-  permissions?: string[];
-}
-
-/**
- * Session data returned to the application
- */
-export interface Session {
-  user: {
-    id: number;
-    email: string;
-    name?: string;
-    role?: string;
-    permissions?: string[];
-  };
-  expiresAt: Date;
-}
+import { redirect } from '@/i18n/routing';
+import type { AuthTokens } from '@/lib/api/auth';
 
-/**
- * Cookie configuration
- */
-const SESSION_COOKIE_NAME = 'session';
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'; // TODO: Set in .env
+import { meetsRequirement, type RouteRequirement } from './route-protection';
+import {
+  REFRESH_COOKIE_NAME,
+  SESSION_COOKIE_NAME,
+  verifySession,
+  type Session,
+} from './token';
 
-/**
- * Get the JWT secret as a Uint8Array
- */
-function getSecretKey(): Uint8Array {
-  return new TextEncoder().encode(JWT_SECRET);
-}
+export type { Session, SessionPayload } from './token';
 
 /**
- * Verify and decode a JWT token
+ * Session cookie attributes
  *
- * @param token - JWT token string
- * @returns Decoded payload or null if invalid
+ * HTTP-only so scripts cannot read the token, Secure outside development
+ * (browsers reject Secure cookies on plain http://localhost in some
+ * cases) and SameSite=Lax, so the session survives following a link to
+ * the site but is not sent with cross-site form posts.
  */
-async function verifyToken(token: string): Promise<SessionPayload | null> {
-  try {
-    const { payload } = await jwtVerify(token, getSecretKey(), {
-      algorithms: ['HS256'],
-    });
-
-    return payload as SessionPayload;
-  } catch (error) {
-    // Token is invalid, expired, or malformed
-    console.error('JWT verification failed:', error);
-    return null;
-  }
-}
+const SESSION_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax',
+  path: '/',
+} as const;
 
 /**
  * Get the current session from HTTP-only cookie
@@ -91,29 +61,55 @@ export async function getSession(): Promise<Session | null> {
     return null;
   }
 
-  const payload = await verifyToken(token);
+  return verifySession(token);
+}
 
-  if (!payload) {
-    return null;
+/**
+ * Get the current session, requiring it to meet a requirement
+ *
+ * For pages (and layouts) that need a session, as second line of defense
+ * behind the middleware (see `protectedRoutes`): redirects to the login
+ * page without a session and renders the localized 403 page when the
+ * user lacks a required role or permission.
+ *
+ * @param returnTo - Path (with locale prefix) to return to after logging
+ * in, like the middleware's redirect; server components cannot read the
+ * request path themselves
+ *
+ * @example
+ * ```tsx
+ * export default async function AdminPage() {
+ *   const locale = await getLocale();
+ *   const session = await requireSession(
+ *     { roles: ['admin'] },
+ *     getPathname({ href: '/admin', locale })
+ *   );
+ *
+ *   return <AdminPanel user={session.user} />;
+ * }
+ * ```
+ */
+export async function requireSession(
+  requirement: RouteRequirement = {},
+  returnTo?: string
+): Promise<Session> {
+  const session = await getSession();
+
+  if (!session) {
+    return redirect({
+      href:
+        returnTo !== undefined
+          ? { pathname: '/login', query: { returnTo } }
+          : '/login',
+      locale: await getLocale(),
+    });
   }
 
-  // Verify token hasn't expired
-  if (payload.exp && payload.exp * 1000 < Date.now()) {
-    return null;
+  if (!meetsRequirement(session, requirement)) {
+    forbidden();
   }
 
-  return {
-    user: {
-      id: payload.userId,
-      email: payload.email,
-      ...(payload.name !== undefined && { name: payload.name }),
-      ...(payload.role !== undefined && { role: payload.role }),
-      ...(payload.permissions !== undefined && {
-        permissions: payload.permissions,
-      }),
-    },
-    expiresAt: new Date(payload.exp ? payload.exp * 1000 : Date.now()),
-  };
+  return session;
 }
 
 /**
@@ -218,3 +214,45 @@ export async function hasRole(role: string): Promise<boolean> {
 
   return session.user.role === role;
 }
+
+/**
+ * Store the tokens issued by the backend in the session and refresh
+ * cookies
+ *
+ * Only usable in Server Actions and Route Handlers. Persistent tokens
+ * ("remember me") keep their cookies until they expire; otherwise the
+ * cookies are removed when the browser closes.
+ */
+export async function setSessionCookies(tokens: AuthTokens): Promise<void> {
+  const cookieStore = await cookies();
+
+  cookieStore.set(SESSION_COOKIE_NAME, tokens.accessToken, {
+    ...SESSION_COOKIE_OPTIONS,
+    ...(tokens.persistent && { expires: tokens.expiresAt }),
+  });
+  cookieStore.set(REFRESH_COOKIE_NAME, tokens.refreshToken, {
+    ...SESSION_COOKIE_OPTIONS,
+    ...(tokens.persistent && { expires: tokens.refreshExpiresAt }),
+  });
+}
+
+/**
+ * Get the refresh token from cookies
+ *
+ * @returns Refresh token or null
+ */
+export async function getRefreshToken(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return cookieStore.get(REFRESH_COOKIE_NAME)?.value ?? null;
+}
+
+/**
+ * Remove the session and refresh cookies (logout)
+ *
+ * Only usable in Server Actions and Route Handlers.
+ */
+export async function clearSessionCookies(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete({ name: SESSION_COOKIE_NAME, ...SESSION_COOKIE_OPTIONS });
+  cookieStore.delete({ name: REFRESH_COOKIE_NAME, ...SESSION_COOKIE_OPTIONS });
+}
@@ -0,0 +1,206 @@
+import { readFile } from 'node:fs/promises';
+
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  errors,
+  jwtVerify,
+  type JSONWebKeySet,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from 'jose';
+
+/**
+ * JWT Session payload structure
+ * Extend this interface based on your actual JWT payload
+ */
+export interface SessionPayload extends JWTPayload {
+  userId: number;
+  email: string;
+  name?: string;
+  role?: string;
+  permissions?: string[];
+}
+
+/**
+ * Session data returned to the application
+ */
+export interface Session {
+  user: {
+    id: number;
+    email: string;
+    name?: string;
+    role?: string;
+    permissions?: string[];
+  };
+  expiresAt: Date;
+}
+
+/**
+ * Cookie configuration
+ */
+export const SESSION_COOKIE_NAME = 'session';
+export const REFRESH_COOKIE_NAME = 'refresh';
+
+/**
+ * Algorithms accepted with a JWKS (asymmetric keys of the identity
+ * backend) and with a shared secret
+ */
+const JWKS_ALGORITHMS = ['RS256', 'ES256'];
+const SECRET_ALGORITHMS = ['HS256'];
+
+/**
+ * Allowed clock difference with the identity backend, for `exp`/`nbf`
+ */
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+/**
+ * Key lookup and accepted algorithms for session tokens
+ */
+interface TokenVerifier {
+  getKey: JWTVerifyGetKey;
+  algorithms: string[];
+}
+
+/**
+ * Key lookup from a local JWKS file (offline use)
+ *
+ * The file is read on first use and read again when a token names a key
+ * it does not contain, so rotated keys are picked up without a restart.
+ */
+function createFileJWKSet(path: string): JWTVerifyGetKey {
+  const load = async () =>
+    createLocalJWKSet(
+      JSON.parse(await readFile(path, 'utf8')) as JSONWebKeySet
+    );
+  let jwks = load();
+
+  return async (protectedHeader, token) => {
+    try {
+      return await (
+        await jwks
+      )(protectedHeader, token);
+    } catch (error) {
+      if (!(error instanceof errors.JWKSNoMatchingKey)) {
+        throw error;
+      }
+      jwks = load();
+      return (await jwks)(protectedHeader, token);
+    }
+  };
+}
+
+/**
+ * Create the verifier from the environment
+ *
+ * In order of precedence:
+ * - JWT_JWKS_URL: remote JWKS; keys are selected by `kid`, and the set is
+ *   fetched again (rate limited) for unknown key IDs after a rotation
+ * - JWT_JWKS_PATH: local JWKS file
+ * - JWT_SECRET: shared HS256 secret
+ *
+ * @returns The verifier, or null when nothing is configured
+ */
+function createVerifier(): TokenVerifier | null {
+  const jwksUrl = process.env.JWT_JWKS_URL;
+  const jwksPath = process.env.JWT_JWKS_PATH;
+  const secret = process.env.JWT_SECRET;
+
+  if (jwksUrl) {
+    return {
+      getKey: createRemoteJWKSet(new URL(jwksUrl)),
+      algorithms: JWKS_ALGORITHMS,
+    };
+  }
+  if (jwksPath) {
+    return { getKey: createFileJWKSet(jwksPath), algorithms: JWKS_ALGORITHMS };
+  }
+  if (secret) {
+    const key = new TextEncoder().encode(secret);
+    return { getKey: () => key, algorithms: SECRET_ALGORITHMS };
+  }
+  return null;
+}
+
+const verifier = createVerifier();
+
+if (!verifier) {
+  const message =
+    'No JWT verification key configured: set JWT_JWKS_URL, JWT_JWKS_PATH or JWT_SECRET';
+
+  // Never run production without session verification
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(message);
+  }
+  console.warn(`${message}. Sessions are disabled.`);
+}
+
+/**
+ * Expected `iss` and `aud` claims, when configured
+ */
+const expectedClaims = {
+  ...(process.env.JWT_ISSUER && { issuer: process.env.JWT_ISSUER }),
+  ...(process.env.JWT_AUDIENCE && {
+    audience: process.env.JWT_AUDIENCE.split(',').map((value) => value.trim()),
+  }),
+};
+
+/**
+ * Verify and decode a JWT token
+ *
+ * Checks the signature, expiry (with clock tolerance) and the configured
+ * issuer and audience.
+ *
+ * @param token - JWT token string
+ * @returns Decoded payload or null if invalid
+ */
+async function verifyToken(token: string): Promise<SessionPayload | null> {
+  if (!verifier) {
+    return null;
+  }
+
+  try {
+    const { payload } = await jwtVerify(token, verifier.getKey, {
+      algorithms: verifier.algorithms,
+      clockTolerance: CLOCK_TOLERANCE_SECONDS,
+      requiredClaims: ['exp'],
+      ...expectedClaims,
+    });
+
+    return payload as SessionPayload;
+  } catch (error) {
+    // Token is invalid, expired, or malformed
+    console.error('JWT verification failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Verify a session JWT and map it to the session
+ *
+ * Only depends on the token, so it also works in middleware, where
+ * `cookies()` is not available.
+ *
+ * @param token - JWT token string
+ * @returns Session object or null if the token is invalid or expired
+ */
+export async function verifySession(token: string): Promise<Session | null> {
+  const payload = await verifyToken(token);
+
+  if (!payload) {
+    return null;
+  }
+
+  return {
+    user: {
+      id: payload.userId,
+      email: payload.email,
+      ...(payload.name !== undefined && { name: payload.name }),
+      ...(payload.role !== undefined && { role: payload.role }),
+      ...(payload.permissions !== undefined && {
+        permissions: payload.permissions,
+      }),
+    },
+    expiresAt: new Date(payload.exp ? payload.exp * 1000 : Date.now()),
+  };
+}
@@ -0,0 +1,25 @@
+import { useQueryStates } from 'nuqs';
+
+import { blogSearchParsers } from '@/lib/search/blog-search-params';
+
+/**
+ * Hook to read and update the blog index filters in the URL
+ *
+ * @example
+ * ```tsx
+ * function CategoryButton({ id }: { id: number }) {
+ *   const [, setSearch] = useBlogSearchState();
+ *
+ *   return (
+ *     <button onClick={() => void setSearch({ category: id, page: null })}>
+ *       Filter
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useBlogSearchState() {
+  return useQueryStates(blogSearchParsers, {
+    history: 'push',
+  });
+}
@@ -0,0 +1,109 @@
+import { useQuery, type UseQueryOptions } from '@tanstack/react-query';
+import { useLocale } from 'next-intl';
+
+import type { Locale } from '@/i18n/config';
+import { blogKeys } from '@/lib/api/query-keys';
+import {
+  getWordPressCategories,
+  getWordPressPost,
+  getWordPressPosts,
+  getWordPressTags,
+  type WordPressPost,
+  type WordPressPostList,
+  type WordPressPostParams,
+  type WordPressTerm,
+} from '@/lib/api/wordpress';
+import { toRelatedPostParams } from '@/lib/search/blog-search-params';
+
+export type { WordPressPost, WordPressPostList, WordPressTerm };
+
+/**
+ * Hook to fetch a page of blog posts in the active locale
+ *
+ * The `locale` param is always set to the active locale.
+ *
+ * @example
+ * ```tsx
+ * function LatestPosts() {
+ *   const { data } = useBlogPosts({ per_page: 3 });
+ *
+ *   return (
+ *     <ul>
+ *       {data?.posts.map((post) => (
+ *         <li key={post.id}>{toPlainText(post.title.rendered)}</li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useBlogPosts(
+  params: WordPressPostParams = {},
+  options?: Omit<UseQueryOptions<WordPressPostList>, 'queryKey' | 'queryFn'>
+) {
+  const locale = useLocale() as Locale;
+  const postParams: WordPressPostParams = { ...params, locale };
+
+  return useQuery({
+    queryKey: blogKeys.list(postParams),
+    queryFn: () => getWordPressPosts(postParams),
+    placeholderData: (previousData) => previousData,
+    ...options,
+  });
+}
+
+/**
+ * Hook to fetch a single blog post by slug in the active locale
+ *
+ * `data` is null when no post has this slug.
+ */
+export function useBlogPost(
+  slug: string,
+  options?: Omit<UseQueryOptions<WordPressPost | null>, 'queryKey' | 'queryFn'>
+) {
+  const locale = useLocale() as Locale;
+
+  return useQuery({
+    queryKey: blogKeys.detail(slug, locale),
+    queryFn: () => getWordPressPost(slug, locale),
+    ...options,
+  });
+}
+
+/**
+ * Hook to fetch posts related to a post (sharing a category)
+ */
+export function useRelatedPosts(post: WordPressPost | undefined) {
+  const locale = useLocale() as Locale;
+
+  return useBlogPosts(
+    post !== undefined ? toRelatedPostParams(post, locale) : {},
+    { enabled: post !== undefined && post.categories.length > 0 }
+  );
+}
+
+/**
+ * Hook to fetch the blog categories in the active locale
+ */
+export function useBlogCategories() {
+  const locale = useLocale() as Locale;
+
+  return useQuery({
+    queryKey: blogKeys.categories(locale),
+    queryFn: () => getWordPressCategories(locale),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+/**
+ * Hook to fetch the blog tags in the active locale
+ */
+export function useBlogTags() {
+  const locale = useLocale() as Locale;
+
+  return useQuery({
+    queryKey: blogKeys.tags(locale),
+    queryFn: () => getWordPressTags(locale),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
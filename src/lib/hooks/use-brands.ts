@@ -0,0 +1,103 @@
+import { useQuery, type UseQueryOptions } from '@tanstack/react-query';
+
+import {
+  getBrand,
+  getBrands,
+  searchProducts,
+  type Brand,
+  type BrandDetail,
+  type ProductSearchParams,
+  type ProductSearchResponse,
+} from '@/lib/api/foodbook';
+import { brandKeys } from '@/lib/api/query-keys';
+
+export type { Brand, BrandDetail };
+
+/**
+ * Hook to fetch all brands
+ *
+ * The brand list rarely changes, so it is kept fresh for 10 minutes.
+ *
+ * @example
+ * ```tsx
+ * function BrandList() {
+ *   const { data } = useBrands();
+ *
+ *   return (
+ *     <ul>
+ *       {data?.map((brand) => (
+ *         <li key={brand.id}>{brand.name}</li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useBrands(
+  options?: Omit<UseQueryOptions<Brand[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: brandKeys.list({}),
+    queryFn: ({ signal }) => getBrands(signal),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    ...options,
+  });
+}
+
+/**
+ * Hook to fetch a single brand by ID
+ *
+ * @example
+ * ```tsx
+ * function BrandHeader({ id }: { id: number }) {
+ *   const { data } = useBrand(id);
+ *
+ *   return data ? <h1>{data.name}</h1> : null;
+ * }
+ * ```
+ */
+export function useBrand(
+  id: number,
+  options?: Omit<UseQueryOptions<BrandDetail>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: brandKeys.detail(id),
+    queryFn: ({ signal }) => getBrand(id, signal),
+    ...options,
+  });
+}
+
+/**
+ * Hook to search the products of a single brand
+ *
+ * Accepts the same params as useProducts; any `brands` filter is replaced
+ * by the brand itself.
+ *
+ * @example
+ * ```tsx
+ * function BrandProducts({ id }: { id: number }) {
+ *   const { data } = useBrandProducts(id, { sortBy: 'name_asc' });
+ *
+ *   return (
+ *     <div>
+ *       {data?.products.map((product) => (
+ *         <ProductCard key={product.id} product={product} />
+ *       ))}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useBrandProducts(
+  id: number,
+  { brands: _brands, ...params }: ProductSearchParams = {},
+  options?: Omit<UseQueryOptions<ProductSearchResponse>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: brandKeys.productList(id, params),
+    queryFn: ({ signal }) =>
+      searchProducts({ ...params, brands: [id] }, signal),
+    placeholderData: (previousData) => previousData,
+    ...options,
+  });
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Hook that returns `value` once it has stopped changing for `delay` ms
+ *
+ * @example
+ * ```tsx
+ * function Search() {
+ *   const [keyword, setKeyword] = useState('');
+ *   const debouncedKeyword = useDebouncedValue(keyword, 250);
+ *   const { data } = useProductAutocomplete(debouncedKeyword);
+ *   // ...
+ * }
+ * ```
+ */
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedValue(value);
+    }, delay);
+
+    return () => {
+      clearTimeout(timeout);
+    };
+  }, [value, delay]);
+
+  return debouncedValue;
+}
@@ -0,0 +1,49 @@
+import { useQuery, type UseQueryOptions } from '@tanstack/react-query';
+
+import {
+  getProductFacets,
+  toProductFacetParams,
+  type ProductFacets,
+  type ProductSearchParams,
+} from '@/lib/api/foodbook';
+import { filterKeys } from '@/lib/api/query-keys';
+
+export type { ProductFacets };
+
+/**
+ * Hook to fetch the available filters (facets) for a product search
+ *
+ * Accepts the same params as useProducts; paging and sorting are ignored
+ * so the facets are only refetched when the filters themselves change.
+ *
+ * @example
+ * ```tsx
+ * function BrandFilter({ params }: { params: ProductSearchParams }) {
+ *   const { data } = useFilters(params);
+ *
+ *   return (
+ *     <ul>
+ *       {data?.brands.map((brand) => (
+ *         <li key={brand.id}>
+ *           {brand.name} ({brand.count})
+ *         </li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function useFilters(
+  params: ProductSearchParams = {},
+  options?: Omit<UseQueryOptions<ProductFacets>, 'queryKey' | 'queryFn'>
+) {
+  const facetParams = toProductFacetParams(params);
+
+  return useQuery({
+    queryKey: filterKeys.list(facetParams),
+    queryFn: ({ signal }) => getProductFacets(facetParams, signal),
+    // Keep showing the previous counts while the new ones load
+    placeholderData: (previousData) => previousData,
+    ...options,
+  });
+}
@@ -0,0 +1,328 @@
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type UseQueryOptions,
+} from '@tanstack/react-query';
+import { z } from 'zod';
+
+import { apiFetch } from '@/lib/api/errors';
+import { productListSchema, type ProductList } from '@/lib/api/lists';
+import { listKeys } from '@/lib/api/query-keys';
+import { parseResponse, readJson } from '@/lib/api/validation';
+
+import { useUser } from './use-session';
+
+export type { ProductList };
+
+/**
+ * Mutation key shared by all list mutations
+ */
+const LIST_MUTATION_KEY = [...listKeys.all, 'mutation'] as const;
+
+// ============================================================================
+// Fetchers (via the /api/lists route handlers)
+// ============================================================================
+
+/**
+ * Request a lists route handler
+ */
+function fetchLists(
+  path: string,
+  init: RequestInit,
+  source: string
+): Promise<Response> {
+  return apiFetch(
+    `/api/lists${path}`,
+    {
+      ...init,
+      ...(init.body !== undefined && {
+        headers: { 'Content-Type': 'application/json' },
+      }),
+      cache: 'no-store',
+    },
+    source
+  );
+}
+
+async function getLists(signal?: AbortSignal): Promise<ProductList[]> {
+  const source = 'Lists';
+  const response = await fetchLists(
+    '',
+    { method: 'GET', ...(signal && { signal }) },
+    source
+  );
+
+  return parseResponse(
+    z.array(productListSchema),
+    await readJson(response, source),
+    source
+  );
+}
+
+async function createList(name: string): Promise<ProductList> {
+  const source = 'List creation';
+  const response = await fetchLists(
+    '',
+    { method: 'POST', body: JSON.stringify({ name }) },
+    source
+  );
+
+  return parseResponse(
+    productListSchema,
+    await readJson(response, source),
+    source
+  );
+}
+
+async function renameList(listId: number, name: string): Promise<void> {
+  await fetchLists(
+    `/${listId.toString()}`,
+    { method: 'PATCH', body: JSON.stringify({ name }) },
+    'List rename'
+  );
+}
+
+async function deleteList(listId: number): Promise<void> {
+  await fetchLists(
+    `/${listId.toString()}`,
+    { method: 'DELETE' },
+    'List deletion'
+  );
+}
+
+async function reorderLists(listIds: number[]): Promise<void> {
+  await fetchLists(
+    '/order',
+    { method: 'PUT', body: JSON.stringify({ listIds }) },
+    'List reorder'
+  );
+}
+
+async function setListProduct(
+  listId: number,
+  productId: number,
+  included: boolean
+): Promise<void> {
+  await fetchLists(
+    `/${listId.toString()}/products/${productId.toString()}`,
+    { method: included ? 'PUT' : 'DELETE' },
+    'List product'
+  );
+}
+
+async function setListShared(
+  listId: number,
+  shared: boolean
+): Promise<ProductList> {
+  const source = 'List sharing';
+  const response = await fetchLists(
+    `/${listId.toString()}/share`,
+    { method: shared ? 'POST' : 'DELETE' },
+    source
+  );
+
+  return parseResponse(
+    productListSchema,
+    await readJson(response, source),
+    source
+  );
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Hook to fetch the lists of the logged-in user
+ *
+ * Disabled without a logged-in user. The favorites list is part of the
+ * result (see useFavorites).
+ *
+ * @example
+ * ```tsx
+ * function ListNames() {
+ *   const { data: lists } = useLists();
+ *
+ *   return lists?.map((list) => <p key={list.id}>{list.name}</p>);
+ * }
+ * ```
+ */
+export function useLists(
+  options?: Omit<UseQueryOptions<ProductList[]>, 'queryKey' | 'queryFn'>
+) {
+  const user = useUser();
+
+  return useQuery({
+    queryKey: listKeys.mine(),
+    queryFn: ({ signal }) => getLists(signal),
+    ...options,
+    enabled: Boolean(user) && (options?.enabled ?? true),
+  });
+}
+
+/**
+ * Hook to get the favorites list of the logged-in user
+ *
+ * @returns The favorites list, or undefined while loading or logged out
+ */
+export function useFavorites(): ProductList | undefined {
+  const { data: lists } = useLists();
+
+  return lists?.find((list) => list.isFavorites);
+}
+
+/**
+ * Optimistic mutation of the lists query
+ *
+ * Applies `update` to the cached lists right away, rolls back when the
+ * request fails and refetches the lists once the last pending list
+ * mutation has settled (so a refetch does not overwrite optimistic
+ * updates of mutations still in flight).
+ */
+function useListsMutation<TVariables, TData = void>(
+  mutationFn: (variables: TVariables) => Promise<TData>,
+  update: (lists: ProductList[], variables: TVariables) => ProductList[]
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: LIST_MUTATION_KEY,
+    mutationFn,
+    onMutate: async (variables) => {
+      await queryClient.cancelQueries({ queryKey: listKeys.mine() });
+
+      const previous = queryClient.getQueryData<ProductList[]>(listKeys.mine());
+
+      if (previous) {
+        queryClient.setQueryData(listKeys.mine(), update(previous, variables));
+      }
+
+      return { previous };
+    },
+    onError: (_error, _variables, result) => {
+      if (result?.previous) {
+        queryClient.setQueryData(listKeys.mine(), result.previous);
+      }
+    },
+    onSettled: async () => {
+      if (queryClient.isMutating({ mutationKey: LIST_MUTATION_KEY }) === 1) {
+        await queryClient.invalidateQueries({ queryKey: listKeys.mine() });
+      }
+    },
+  });
+}
+
+/**
+ * Hook to add a product to, or remove it from, a list
+ *
+ * @example
+ * ```tsx
+ * const { mutate } = useToggleListProduct();
+ *
+ * mutate({ listId: favorites.id, productId: 123, included: true });
+ * ```
+ */
+export function useToggleListProduct() {
+  return useListsMutation(
+    ({
+      listId,
+      productId,
+      included,
+    }: {
+      listId: number;
+      productId: number;
+      included: boolean;
+    }) => setListProduct(listId, productId, included),
+    (lists, { listId, productId, included }) =>
+      lists.map((list) => {
+        if (list.id !== listId) {
+          return list;
+        }
+
+        const productIds = list.productIds.filter((id) => id !== productId);
+        return {
+          ...list,
+          productIds: included ? [...productIds, productId] : productIds,
+        };
+      })
+  );
+}
+
+/**
+ * Hook to create a named list
+ *
+ * The list is shown right away with a temporary (negative) ID, until the
+ * lists are refetched.
+ */
+export function useCreateList() {
+  return useListsMutation(
+    ({ name }: { name: string }) => createList(name),
+    (lists, { name }) => [
+      ...lists,
+      {
+        id: -Date.now(),
+        name: name.trim(),
+        isFavorites: false,
+        productIds: [],
+        shareToken: null,
+      },
+    ]
+  );
+}
+
+/**
+ * Hook to rename a named list
+ */
+export function useRenameList() {
+  return useListsMutation(
+    ({ listId, name }: { listId: number; name: string }) =>
+      renameList(listId, name),
+    (lists, { listId, name }) =>
+      lists.map((list) =>
+        list.id === listId ? { ...list, name: name.trim() } : list
+      )
+  );
+}
+
+/**
+ * Hook to delete a named list
+ */
+export function useDeleteList() {
+  return useListsMutation(
+    ({ listId }: { listId: number }) => deleteList(listId),
+    (lists, { listId }) => lists.filter((list) => list.id !== listId)
+  );
+}
+
+/**
+ * Hook to reorder the lists
+ *
+ * Takes all list IDs in the new order.
+ */
+export function useReorderLists() {
+  return useListsMutation(
+    ({ listIds }: { listIds: number[] }) => reorderLists(listIds),
+    (lists, { listIds }) =>
+      listIds.flatMap((id) => lists.filter((list) => list.id === id))
+  );
+}
+
+/**
+ * Hook to share a list, or stop sharing it
+ *
+ * The share token is only known once the request succeeds; use
+ * `mutateAsync` to get the shared list (e.g. to copy its link).
+ */
+export function useShareList() {
+  return useListsMutation(
+    ({ listId, shared }: { listId: number; shared: boolean }) =>
+      setListShared(listId, shared),
+    (lists, { listId, shared }) =>
+      shared
+        ? lists
+        : lists.map((list) =>
+            list.id === listId ? { ...list, shareToken: null } : list
+          )
+  );
+}
@@ -0,0 +1,31 @@
+import { useQueryStates } from 'nuqs';
+
+import { productSearchParsers } from '@/lib/search/product-search-params';
+
+/**
+ * Hook to read and update the product search state in the URL
+ *
+ * Every change pushes a history entry, so searches are shareable and
+ * back/forward navigable.
+ *
+ * @example
+ * ```tsx
+ * function InStockToggle() {
+ *   const [{ inStock }, setSearch] = useProductSearchState();
+ *
+ *   return (
+ *     <Checkbox
+ *       checked={inStock}
+ *       onCheckedChange={(checked) => {
+ *         void setSearch({ inStock: checked === true, page: null });
+ *       }}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export function useProductSearchState() {
+  return useQueryStates(productSearchParsers, {
+    history: 'push',
+  });
+}
@@ -1,90 +1,36 @@
-import { useQuery, type UseQueryOptions } from '@tanstack/react-query';
+import {
+  useInfiniteQuery,
+  useQueries,
+  useQuery,
+  type UseQueryOptions,
+} from '@tanstack/react-query';
+import { useLocale } from 'next-intl';
 
+import type { Locale } from '@/i18n/config';
+import {
+  getAutocompleteSuggestions,
+  getProductSheet,
+  searchProducts,
+  type AutocompleteSuggestions,
+  type Product,
+  type ProductSearchParams,
+  type ProductSearchResponse,
+  type ProductSheet,
+} from '@/lib/api/foodbook';
 import { productKeys } from '@/lib/api/query-keys';
 
-/**
- * Product search parameters
- */
-export interface ProductSearchParams extends Record<string, unknown> {
-  keyword?: string;
-  page?: number;
-  pageSize?: number;
-  brands?: number[];
-  categories?: number[];
-  minPrice?: number;
-  maxPrice?: number;
-  inStock?: boolean;
-  sortBy?: 'relevance' | 'name_asc' | 'name_desc' | 'price_asc' | 'price_desc';
-}
-
-/**
- * Product type (placeholder)
- */
-export interface Product {
-  id: number;
-  name: string;
-  brand: string;
-  brandId: number;
-  articleNumber: string;
-  description: string;
-  price: number;
-  image: string;
-  inStock: boolean;
-}
+export type {
+  AutocompleteSuggestions,
+  Product,
+  ProductSearchParams,
+  ProductSearchResponse,
+  ProductSheet,
+};
 
 /**
- * Product search response (placeholder)
+ * Minimum keyword length before autocomplete suggestions are fetched
  */
-export interface ProductSearchResponse {
-  products: Product[];
-  total: number;
-  page: number;
-  pageSize: number;
-  totalPages: number;
-}
-
-/**
- * Fetch products from the API
- * This is a placeholder implementation that will be replaced with actual API calls
- */
-async function fetchProducts(
-  params: ProductSearchParams
-): Promise<ProductSearchResponse> {
-  // TODO: Replace with actual API call to NEXT_PUBLIC_FOODBOOK_API_URL/v2/Search/SearchResults
-  // For now, return mock data
-  await new Promise((resolve) => setTimeout(resolve, 500)); // Simulate network delay
-
-  return {
-    products: [
-      {
-        id: 1,
-        name: 'Tomaten Cherry',
-        brand: 'Fresh & Easy',
-        brandId: 101,
-        articleNumber: 'TOM-001',
-        description: 'Verse cherry tomaten uit eigen kweek',
-        price: 2.99,
-        image: '/placeholder-product.jpg',
-        inStock: true,
-      },
-      {
-        id: 2,
-        name: 'Komkommer',
-        brand: 'Green Valley',
-        brandId: 102,
-        articleNumber: 'KOM-001',
-        description: 'Verse komkommer',
-        price: 1.49,
-        image: '/placeholder-product.jpg',
-        inStock: true,
-      },
-    ],
-    total: 2,
-    page: params.page ?? 0,
-    pageSize: params.pageSize ?? 21,
-    totalPages: 1,
-  };
-}
+export const AUTOCOMPLETE_MIN_LENGTH = 2;
 
 /**
  * Hook to fetch products with search parameters
@@ -113,7 +59,7 @@ export function useProducts(
 ) {
   return useQuery({
     queryKey: productKeys.list(params),
-    queryFn: () => fetchProducts(params),
+    queryFn: ({ signal }) => searchProducts(params, signal),
     // Provide placeholder data for optimistic UI
     placeholderData: (previousData) => previousData,
     // Only fetch if we have search params
@@ -122,6 +68,50 @@ export function useProducts(
   });
 }
 
+/**
+ * Hook to fetch products page by page, for infinite scrolling
+ *
+ * All loaded pages are cached under productKeys.infinite(params), so
+ * remounting (e.g. navigating back from a product) restores them. The
+ * `page` param is ignored; pages are loaded with `fetchNextPage`.
+ *
+ * @example
+ * ```tsx
+ * function ProductList() {
+ *   const { data, hasNextPage, fetchNextPage } = useInfiniteProducts({
+ *     keyword: 'tomaat',
+ *   });
+ *
+ *   return (
+ *     <div>
+ *       {data?.pages.flatMap((page) =>
+ *         page.products.map((product) => (
+ *           <ProductCard key={product.id} product={product} />
+ *         ))
+ *       )}
+ *       {hasNextPage ? (
+ *         <button onClick={() => fetchNextPage()}>Load more</button>
+ *       ) : null}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useInfiniteProducts(
+  { page: _page, ...params }: ProductSearchParams = {},
+  options?: { enabled?: boolean }
+) {
+  return useInfiniteQuery({
+    queryKey: productKeys.infinite(params),
+    queryFn: ({ pageParam, signal }) =>
+      searchProducts({ ...params, page: pageParam }, signal),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) =>
+      lastPage.page + 1 < lastPage.totalPages ? lastPage.page + 1 : undefined,
+    enabled: options?.enabled ?? true,
+  });
+}
+
 /**
  * Hook to fetch a single product by ID
  *
@@ -134,52 +124,76 @@ export function useProducts(
  *   if (error) return <div>Error: {error.message}</div>;
  *   if (!data) return <div>Product not found</div>;
  *
- *   return <ProductCard product={data} />;
+ *   return <ProductSheetView product={data} />;
  * }
  * ```
  */
 export function useProduct(
   id: number,
-  options?: Omit<UseQueryOptions<Product>, 'queryKey' | 'queryFn'>
+  options?: Omit<UseQueryOptions<ProductSheet>, 'queryKey' | 'queryFn'>
 ) {
   return useQuery({
     queryKey: productKeys.detail(id),
-    queryFn: async () => {
-      // TODO: Replace with actual API call to NEXT_PUBLIC_FOODBOOK_API_URL/v2/Product/GetProductSheet/{id}
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      return {
-        id,
-        name: 'Tomaten Cherry',
-        brand: 'Fresh & Easy',
-        brandId: 101,
-        articleNumber: 'TOM-001',
-        description: 'Verse cherry tomaten uit eigen kweek',
-        price: 2.99,
-        image: '/placeholder-product.jpg',
-        inStock: true,
-      };
-    },
+    queryFn: ({ signal }) => getProductSheet(id, signal),
     ...options,
   });
 }
 
 /**
- * Hook to fetch autocomplete suggestions
+ * Hook to fetch the product sheets of several products
+ *
+ * Shares the cache of useProduct. The result keeps the order of `ids`
+ * and only contains the products loaded so far.
+ *
+ * @example
+ * ```tsx
+ * function Selection({ ids }: { ids: number[] }) {
+ *   const { products, isPending } = useProductsByIds(ids);
+ *
+ *   if (isPending) return <div>Loading...</div>;
+ *
+ *   return products.map((product) => <p key={product.id}>{product.name}</p>);
+ * }
+ * ```
+ */
+export function useProductsByIds(ids: number[]) {
+  return useQueries({
+    queries: ids.map((id) => ({
+      queryKey: productKeys.detail(id),
+      queryFn: ({ signal }: { signal: AbortSignal }) =>
+        getProductSheet(id, signal),
+    })),
+    combine: (results) => ({
+      products: results.flatMap((result) =>
+        result.data !== undefined ? [result.data] : []
+      ),
+      isPending: results.some((result) => result.isPending),
+      isError: results.some((result) => result.isError),
+      refetch: () => {
+        for (const result of results) {
+          if (result.isError) {
+            void result.refetch();
+          }
+        }
+      },
+    }),
+  });
+}
+
+/**
+ * Hook to fetch autocomplete suggestions for the active locale
  *
  * @example
  * ```tsx
  * function SearchAutocomplete({ keyword }: { keyword: string }) {
- *   const { data, isLoading } = useProductAutocomplete(keyword, {
- *     enabled: keyword.length >= 2
- *   });
+ *   const { data, isLoading } = useProductAutocomplete(keyword);
  *
  *   if (!data) return null;
  *
  *   return (
  *     <ul>
- *       {data.map((suggestion) => (
- *         <li key={suggestion}>{suggestion}</li>
+ *       {data.products.map((product) => (
+ *         <li key={product.id}>{product.name}</li>
  *       ))}
  *     </ul>
  *   );
@@ -188,20 +202,26 @@ export function useProduct(
  */
 export function useProductAutocomplete(
   keyword: string,
-  options?: Omit<UseQueryOptions<string[]>, 'queryKey' | 'queryFn'>
+  options?: Omit<
+    UseQueryOptions<AutocompleteSuggestions>,
+    'queryKey' | 'queryFn'
+  >
 ) {
-  return useQuery({
-    queryKey: productKeys.autocomplete(keyword),
-    queryFn: async () => {
-      // TODO: Replace with actual API call to NEXT_PUBLIC_FOODBOOK_API_URL/v2/Search/{locale}/AutoComplete/{keyword}
-      await new Promise((resolve) => setTimeout(resolve, 200));
+  const locale = useLocale() as Locale;
+  const trimmedKeyword = keyword.trim();
 
-      return ['Tomaten Cherry', 'Tomaten Roma', 'Tomatensaus'];
-    },
-    // Only fetch if keyword is at least 2 characters
-    enabled: keyword.length >= 2 && (options?.enabled ?? true),
+  return useQuery({
+    queryKey: productKeys.autocomplete(trimmedKeyword, locale),
+    queryFn: ({ signal }) =>
+      getAutocompleteSuggestions(locale, trimmedKeyword, signal),
     // Autocomplete should have shorter stale time
     staleTime: 30 * 1000, // 30 seconds
+    // Keep the previous suggestions visible while typing
+    placeholderData: (previousData) => previousData,
     ...options,
+    // Only fetch if keyword is at least 2 characters
+    enabled:
+      trimmedKeyword.length >= AUTOCOMPLETE_MIN_LENGTH &&
+      (options?.enabled ?? true),
   });
 }
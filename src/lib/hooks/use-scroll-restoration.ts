@@ -0,0 +1,93 @@
+import { useEffect, useRef } from 'react';
+
+const STORAGE_PREFIX = 'scroll-position:';
+
+/**
+ * Whether the current navigation is a back/forward traversal
+ *
+ * Set by `popstate` (which fires before the router renders the restored
+ * page) and cleared when a restoring component unmounts, so positions are
+ * only restored on history navigation and never on a fresh link click.
+ */
+let isHistoryNavigation = false;
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('popstate', () => {
+    isHistoryNavigation = true;
+  });
+}
+
+function readPosition(key: string) {
+  try {
+    const value = sessionStorage.getItem(STORAGE_PREFIX + key);
+    sessionStorage.removeItem(STORAGE_PREFIX + key);
+    return value === null ? null : Number(value);
+  } catch {
+    // Storage can be unavailable (e.g. disabled cookies)
+    return null;
+  }
+}
+
+function writePosition(key: string, position: number) {
+  try {
+    sessionStorage.setItem(STORAGE_PREFIX + key, String(position));
+  } catch {
+    // Storage can be unavailable (e.g. disabled cookies)
+  }
+}
+
+/**
+ * Hook to restore the window scroll position on back/forward navigation
+ *
+ * Stores the scroll position when the component unmounts (the user
+ * navigates away) and restores it once `ready` is true after navigating
+ * back. Needed for content that is rendered client-side after the router
+ * has already tried to restore the position, like infinite lists.
+ *
+ * @param key - Identifies the content, e.g. the current search
+ * @param ready - Whether the content is rendered at its full height
+ *
+ * @example
+ * ```tsx
+ * function ProductList({ params }: { params: ProductSearchParams }) {
+ *   const { data } = useInfiniteProducts(params);
+ *   useScrollRestoration(JSON.stringify(params), data !== undefined);
+ *   // ...
+ * }
+ * ```
+ */
+export function useScrollRestoration(key: string, ready: boolean) {
+  const keyRef = useRef(key);
+  const restoredRef = useRef(false);
+
+  useEffect(() => {
+    keyRef.current = key;
+  }, [key]);
+
+  // Restore once per mount, as soon as the content is there
+  useEffect(() => {
+    if (!ready || restoredRef.current) {
+      return;
+    }
+    restoredRef.current = true;
+
+    const position = readPosition(key);
+    if (isHistoryNavigation && position !== null && Number.isFinite(position)) {
+      window.scrollTo({ top: position });
+    }
+  }, [key, ready]);
+
+  // Save when navigating away (unmount) or leaving the page
+  useEffect(() => {
+    const save = () => {
+      writePosition(keyRef.current, window.scrollY);
+    };
+
+    window.addEventListener('pagehide', save);
+    return () => {
+      window.removeEventListener('pagehide', save);
+      save();
+      isHistoryNavigation = false;
+    };
+  }, []);
+}
@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { z } from 'zod';
+
+/**
+ * How long before expiry the session is renewed
+ */
+const RENEW_BEFORE_MS = 60 * 1000;
+
+/**
+ * Delay before retrying a renewal that failed for another reason than
+ * an invalid refresh token (network, server errors)
+ */
+const RETRY_DELAY_MS = 15 * 1000;
+
+/**
+ * Longest delay setTimeout supports
+ */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const renewalResponseSchema = z.object({
+  expiresAt: z.number(),
+});
+
+/**
+ * Renew the session via the refresh route
+ *
+ * Runs under a Web Lock, so tabs renew one after the other and only the
+ * first one rotates the refresh token.
+ *
+ * @returns The new expiry (ms timestamp), or null when the session can
+ * no longer be renewed
+ * @throws Error when the renewal failed otherwise
+ */
+async function renewSession(): Promise<number | null> {
+  return await navigator.locks.request('session-renewal', async () => {
+    const response = await fetch('/api/auth/refresh', { method: 'POST' });
+
+    if (response.status === 401) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Session renewal failed: ${response.status.toString()}`);
+    }
+
+    return renewalResponseSchema.parse(await response.json()).expiresAt;
+  });
+}
+
+/**
+ * Hook to silently renew the session before it expires
+ *
+ * Schedules a renewal shortly before `expiresAt` and again before every
+ * renewed expiry. Failed renewals are retried while the session is still
+ * valid.
+ *
+ * @param expiresAt - Expiry of the current session (ms timestamp); a
+ * past expiry is renewed right away. Null when logged out.
+ * @param callbacks.onRenewed - Called when an already expired session was
+ * renewed (the server rendered it as logged out)
+ * @param callbacks.onExpired - Called when the session could not be
+ * renewed
+ *
+ * @example
+ * ```tsx
+ * function SessionRenewal({ expiresAt }: { expiresAt: number | null }) {
+ *   const router = useRouter();
+ *   useSessionRenewal(expiresAt, {
+ *     onRenewed: () => router.refresh(),
+ *     onExpired: () => router.refresh(),
+ *   });
+ *   return null;
+ * }
+ * ```
+ */
+export function useSessionRenewal(
+  expiresAt: number | null,
+  callbacks: { onRenewed: () => void; onExpired: () => void }
+) {
+  const [renewedExpiresAt, setRenewedExpiresAt] = useState(0);
+  const callbacksRef = useRef(callbacks);
+  const currentExpiresAt =
+    expiresAt === null ? null : Math.max(expiresAt, renewedExpiresAt);
+
+  useEffect(() => {
+    callbacksRef.current = callbacks;
+  }, [callbacks]);
+
+  useEffect(() => {
+    if (currentExpiresAt === null) {
+      return;
+    }
+
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const schedule = (delay: number) => {
+      timeout = setTimeout(
+        () => void renew(),
+        Math.min(Math.max(delay, 0), MAX_TIMEOUT_MS)
+      );
+    };
+
+    const renew = async () => {
+      try {
+        const nextExpiresAt = await renewSession();
+        if (cancelled) {
+          return;
+        }
+        if (nextExpiresAt === null) {
+          callbacksRef.current.onExpired();
+          return;
+        }
+        if (currentExpiresAt <= Date.now()) {
+          callbacksRef.current.onRenewed();
+        }
+        setRenewedExpiresAt(nextExpiresAt);
+      } catch (error) {
+        if (cancelled) {
+          return;
+        }
+        console.error(error);
+        if (Date.now() + RETRY_DELAY_MS < currentExpiresAt) {
+          schedule(RETRY_DELAY_MS);
+        } else {
+          callbacksRef.current.onExpired();
+        }
+      }
+    };
+
+    schedule(currentExpiresAt - RENEW_BEFORE_MS - Date.now());
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [currentExpiresAt]);
+}
@@ -0,0 +1,109 @@
+import {
+  useQuery,
+  type QueryClient,
+  type UseQueryOptions,
+} from '@tanstack/react-query';
+import { z } from 'zod';
+
+import { authKeys, userQueryKeys } from '@/lib/api/query-keys';
+import type { Session } from '@/lib/auth/token';
+
+export type { Session };
+
+const sessionSchema = z
+  .object({
+    user: z.object({
+      id: z.number(),
+      email: z.string(),
+      name: z.string().exactOptional(),
+      role: z.string().exactOptional(),
+      permissions: z.array(z.string()).exactOptional(),
+    }),
+    expiresAt: z.coerce.date(),
+  })
+  .nullable();
+
+/**
+ * Fetch the current session via the session route
+ *
+ * @returns The session, or null when not logged in
+ * @throws Error when the request fails
+ */
+async function getClientSession(signal?: AbortSignal): Promise<Session | null> {
+  const response = await fetch('/api/auth/session', {
+    cache: 'no-store',
+    ...(signal && { signal }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Session request failed: ${response.status.toString()}`);
+  }
+
+  return sessionSchema.parse(await response.json());
+}
+
+/**
+ * Hook to get the current session
+ *
+ * Starts from the session rendered on the server (see SessionProvider)
+ * and is refetched when the window regains focus, so logins and logouts
+ * in other tabs are picked up.
+ *
+ * @example
+ * ```tsx
+ * function Greeting() {
+ *   const { data: session } = useSession();
+ *
+ *   return session ? <p>{session.user.email}</p> : null;
+ * }
+ * ```
+ */
+export function useSession(
+  options?: Omit<UseQueryOptions<Session | null>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: authKeys.session(),
+    queryFn: ({ signal }) => getClientSession(signal),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: true,
+    ...options,
+  });
+}
+
+/**
+ * Hook to get the logged-in user
+ *
+ * Reads the user from the session query (authKeys.session()); there is
+ * no separate user query.
+ *
+ * @returns The user, or null when not logged in (undefined while loading)
+ *
+ * @example
+ * ```tsx
+ * function Avatar() {
+ *   const user = useUser();
+ *
+ *   return user ? <span>{user.name ?? user.email}</span> : null;
+ * }
+ * ```
+ */
+export function useUser(): Session['user'] | null | undefined {
+  const { data } = useSession();
+
+  return data === undefined ? undefined : (data?.user ?? null);
+}
+
+/**
+ * Invalidate all user-specific queries
+ *
+ * Called when the logged-in user changes (login, logout), so components
+ * refetch their data for the new user instead of showing the previous
+ * user's.
+ */
+export async function invalidateUserQueries(
+  queryClient: QueryClient
+): Promise<void> {
+  await Promise.all(
+    userQueryKeys.map((queryKey) => queryClient.invalidateQueries({ queryKey }))
+  );
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  isNutrientCode,
+  toPortionValue,
+  toReferenceIntake,
+  withEnergy,
+} from './nutrients';
+
+describe('isNutrientCode', () => {
+  it('accepts known nutrient codes', () => {
+    expect(isNutrientCode('salt')).toBe(true);
+    expect(isNutrientCode('vitaminB12')).toBe(true);
+  });
+
+  it('rejects unknown codes and inherited properties', () => {
+    expect(isNutrientCode('caffeine')).toBe(false);
+    expect(isNutrientCode('toString')).toBe(false);
+    expect(isNutrientCode('__proto__')).toBe(false);
+  });
+});
+
+describe('toPortionValue', () => {
+  it('scales a value per 100 g/ml to the portion size', () => {
+    expect(toPortionValue(12, 250)).toBe(30);
+    expect(toPortionValue(8, 50)).toBe(4);
+  });
+});
+
+describe('toReferenceIntake', () => {
+  it('returns the share of the reference intake', () => {
+    expect(toReferenceIntake('energyKcal', 500)).toBe(0.25);
+    expect(toReferenceIntake('salt', 1.5)).toBe(0.25);
+    expect(toReferenceIntake('vitaminC', 80)).toBe(1);
+  });
+
+  it('returns null without a reference intake', () => {
+    expect(toReferenceIntake('fibre', 3)).toBeNull();
+  });
+});
+
+describe('withEnergy', () => {
+  it('adds kcal when only kJ is declared', () => {
+    const [, kcal] = withEnergy([{ code: 'energyKj', value: 418.4 }]);
+
+    expect(kcal?.code).toBe('energyKcal');
+    expect(kcal?.value).toBeCloseTo(100);
+  });
+
+  it('adds kJ when only kcal is declared', () => {
+    const [, kj] = withEnergy([{ code: 'energyKcal', value: 100 }]);
+
+    expect(kj?.code).toBe('energyKj');
+    expect(kj?.value).toBeCloseTo(418.4);
+  });
+
+  it('keeps declared energy values', () => {
+    const nutrients = [
+      { code: 'energyKj', value: 420 },
+      { code: 'energyKcal', value: 100 },
+    ] as const;
+
+    expect(withEnergy([...nutrients])).toEqual(nutrients);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Nutrient model
+ *
+ * The nutrients of the EU nutrition declaration (EU 1169/2011, Annex XV
+ * order) and the optional vitamins and minerals, with their units and
+ * reference intakes for an average adult (Annex XIII). Names are
+ * translated in the `Nutrients` messages namespace, keyed by code.
+ */
+
+export interface NutrientDefinition {
+  unit: 'kJ' | 'kcal' | 'g' | 'mg' | 'µg';
+  /** Reference intake, in `unit`; null when there is none (fibre) */
+  referenceIntake: number | null;
+  /** Shown as "of which" of the previous nutrient */
+  subNutrient?: boolean;
+  /** Vitamin or mineral, only declared when significant */
+  micronutrient?: boolean;
+}
+
+/**
+ * Nutrients, in declaration order
+ */
+export const NUTRIENTS = {
+  energyKj: { unit: 'kJ', referenceIntake: 8400 },
+  energyKcal: { unit: 'kcal', referenceIntake: 2000 },
+  fat: { unit: 'g', referenceIntake: 70 },
+  saturates: { unit: 'g', referenceIntake: 20, subNutrient: true },
+  carbohydrate: { unit: 'g', referenceIntake: 260 },
+  sugars: { unit: 'g', referenceIntake: 90, subNutrient: true },
+  fibre: { unit: 'g', referenceIntake: null },
+  protein: { unit: 'g', referenceIntake: 50 },
+  salt: { unit: 'g', referenceIntake: 6 },
+  vitaminA: { unit: 'µg', referenceIntake: 800, micronutrient: true },
+  vitaminD: { unit: 'µg', referenceIntake: 5, micronutrient: true },
+  vitaminE: { unit: 'mg', referenceIntake: 12, micronutrient: true },
+  vitaminK: { unit: 'µg', referenceIntake: 75, micronutrient: true },
+  vitaminC: { unit: 'mg', referenceIntake: 80, micronutrient: true },
+  thiamin: { unit: 'mg', referenceIntake: 1.1, micronutrient: true },
+  riboflavin: { unit: 'mg', referenceIntake: 1.4, micronutrient: true },
+  niacin: { unit: 'mg', referenceIntake: 16, micronutrient: true },
+  vitaminB6: { unit: 'mg', referenceIntake: 1.4, micronutrient: true },
+  folicAcid: { unit: 'µg', referenceIntake: 200, micronutrient: true },
+  vitaminB12: { unit: 'µg', referenceIntake: 2.5, micronutrient: true },
+  calcium: { unit: 'mg', referenceIntake: 800, micronutrient: true },
+  iron: { unit: 'mg', referenceIntake: 14, micronutrient: true },
+  magnesium: { unit: 'mg', referenceIntake: 375, micronutrient: true },
+  potassium: { unit: 'mg', referenceIntake: 2000, micronutrient: true },
+  zinc: { unit: 'mg', referenceIntake: 10, micronutrient: true },
+  iodine: { unit: 'µg', referenceIntake: 150, micronutrient: true },
+} as const satisfies Record<string, NutrientDefinition>;
+
+export type NutrientCode = keyof typeof NUTRIENTS;
+
+/**
+ * Declared amount of a nutrient, in the unit of the nutrient
+ */
+export interface NutrientValue {
+  code: NutrientCode;
+  value: number;
+}
+
+export const NUTRIENT_CODES = Object.keys(NUTRIENTS) as [
+  NutrientCode,
+  ...NutrientCode[],
+];
+
+/**
+ * Reference quantity of nutrient values: per 100 g (solids) or 100 ml
+ * (liquids)
+ */
+export const NUTRIENT_BASES = ['100g', '100ml'] as const;
+
+export type NutrientBasis = (typeof NUTRIENT_BASES)[number];
+
+/**
+ * kJ per kcal
+ */
+const KJ_PER_KCAL = 4.184;
+
+/**
+ * Whether a string is a known nutrient code
+ */
+export function isNutrientCode(value: string): value is NutrientCode {
+  return Object.hasOwn(NUTRIENTS, value);
+}
+
+/**
+ * Get the definition of a nutrient
+ */
+export function getNutrient(code: NutrientCode): NutrientDefinition {
+  return NUTRIENTS[code];
+}
+
+/**
+ * Scale a value per 100 g/ml to a portion
+ *
+ * @param portionSize - Portion size in g or ml (same unit as the basis)
+ */
+export function toPortionValue(value: number, portionSize: number): number {
+  return (value * portionSize) / 100;
+}
+
+/**
+ * Share of the reference intake, as a fraction (0.25 = 25%)
+ *
+ * @returns The fraction, or null when the nutrient has no reference intake
+ */
+export function toReferenceIntake(
+  code: NutrientCode,
+  value: number
+): number | null {
+  const { referenceIntake } = getNutrient(code);
+
+  return referenceIntake === null ? null : value / referenceIntake;
+}
+
+/**
+ * Complete the energy values when only kJ or kcal is declared
+ */
+export function withEnergy(nutrients: NutrientValue[]): NutrientValue[] {
+  const kj = nutrients.find((nutrient) => nutrient.code === 'energyKj');
+  const kcal = nutrients.find((nutrient) => nutrient.code === 'energyKcal');
+
+  if (kj && !kcal) {
+    return [
+      ...nutrients,
+      { code: 'energyKcal', value: kj.value / KJ_PER_KCAL },
+    ];
+  }
+  if (kcal && !kj) {
+    return [
+      ...nutrients,
+      { code: 'energyKj', value: kcal.value * KJ_PER_KCAL },
+    ];
+  }
+  return nutrients;
+}
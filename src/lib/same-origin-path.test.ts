@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+
+import { isSameOriginPath } from './same-origin-path';
+
+describe('isSameOriginPath', () => {
+  it.each(['/', '/nl/account', '/en/product?q=soup#results', '/a//b'])(
+    'accepts %s',
+    (value) => {
+      expect(isSameOriginPath(value)).toBe(true);
+    }
+  );
+
+  it.each([
+    '',
+    'account',
+    'https://evil.test/',
+    '//evil.test',
+    '/\\evil.test',
+    '/\t/evil.test',
+    '/\n/evil.test',
+    '/\r\\evil.test',
+    '/\u0000/evil.test',
+  ])('rejects %j', (value) => {
+    expect(isSameOriginPath(value)).toBe(false);
+  });
+});
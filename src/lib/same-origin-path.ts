@@ -0,0 +1,27 @@
+/**
+ * Redirect target validation
+ *
+ * `returnTo` parameters (login, preview exit) come from the URL, so they
+ * may only point to a path on this site, never to another host.
+ */
+
+/**
+ * Origin to resolve paths against; any origin works, as only the
+ * resulting origin is compared
+ */
+const BASE_ORIGIN = 'http://localhost';
+
+/**
+ * Whether a value is a path on this site, safe to redirect to
+ *
+ * Rejects protocol-relative URLs (`//host`, and `/\host`, which browsers
+ * treat the same) and control characters, which the URL parser strips
+ * (so `/\t/host` would resolve to `//host`).
+ */
+export function isSameOriginPath(value: string): boolean {
+  if (!/^\/(?![/\\])/.test(value) || /[\u0000-\u001f\u007f]/.test(value)) {
+    return false;
+  }
+
+  return new URL(value, BASE_ORIGIN).origin === BASE_ORIGIN;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import { sanitizeUrl } from './sanitize-url';
+
+describe('sanitizeUrl', () => {
+  it.each([
+    'https://example.test/page',
+    'http://example.test/page',
+    'mailto:info@example.test',
+    'tel:+31201234567',
+    '/over-ons',
+    '#section',
+    'image.jpg',
+  ])('allows %s', (url) => {
+    expect(sanitizeUrl(url)).toBe(url);
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'JavaScript:alert(1)',
+    'java\tscript:alert(1)',
+    ' javascript:alert(1)',
+    'data:text/html,<script>alert(1)</script>',
+    'vbscript:msgbox(1)',
+  ])('blocks %j', (url) => {
+    expect(sanitizeUrl(url)).toBeNull();
+  });
+
+  it('strips whitespace and control characters', () => {
+    expect(sanitizeUrl(' https://example.test/a b\n')).toBe(
+      'https://example.test/ab'
+    );
+  });
+
+  it('returns null for missing and empty URLs', () => {
+    expect(sanitizeUrl(undefined)).toBeNull();
+    expect(sanitizeUrl(' \n')).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * URL sanitizing
+ *
+ * Cleans URL attributes of untrusted HTML (WordPress content) before they
+ * are rendered as links, images or citations.
+ */
+
+/**
+ * Link protocols allowed in `href`
+ */
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:', 'tel:']);
+
+/**
+ * Clean a URL attribute, allowing only relative URLs and safe protocols
+ * (blocks `javascript:`, `data:` and the like)
+ *
+ * @returns The URL without whitespace/control characters, or null
+ */
+export function sanitizeUrl(url: string | undefined): string | null {
+  if (url === undefined) {
+    return null;
+  }
+
+  // Browsers ignore these, so "java\tscript:" would still run
+  const cleaned = url.replace(/[\u0000-\u0020\u007f]/g, '');
+
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(cleaned)) {
+    return cleaned === '' ? null : cleaned;
+  }
+
+  try {
+    return SAFE_PROTOCOLS.has(new URL(cleaned).protocol) ? cleaned : null;
+  } catch {
+    return null;
+  }
+}
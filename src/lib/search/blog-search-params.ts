@@ -0,0 +1,75 @@
+/**
+ * Blog index URL state
+ *
+ * Describes how the blog index filters are stored in the URL
+ * (`/blog?category=3&page=2`). Shared by the server page (prefetch) and
+ * the client hook, so both derive the same WordPressPostParams.
+ */
+
+import {
+  createLoader,
+  parseAsInteger,
+  type inferParserType,
+} from 'nuqs/server';
+
+import type { Locale } from '@/i18n/config';
+import type { WordPressPost, WordPressPostParams } from '@/lib/api/wordpress';
+
+/**
+ * Number of posts per page (3 column grid)
+ */
+export const BLOG_PAGE_SIZE = 9;
+
+/**
+ * Number of related posts shown below a post
+ */
+export const RELATED_POSTS_COUNT = 3;
+
+/**
+ * URL search param parsers for the blog index
+ */
+export const blogSearchParsers = {
+  category: parseAsInteger,
+  tag: parseAsInteger,
+  // 1-based, like the WordPress API
+  page: parseAsInteger.withDefault(1),
+};
+
+export type BlogSearchState = inferParserType<typeof blogSearchParsers>;
+
+/**
+ * Load the blog search state from a page's `searchParams`
+ */
+export const loadBlogSearchState = createLoader(blogSearchParsers);
+
+/**
+ * Convert URL state into WordPress post list params
+ */
+export function toBlogPostParams(
+  state: BlogSearchState,
+  locale: Locale
+): WordPressPostParams {
+  return {
+    page: state.page,
+    per_page: BLOG_PAGE_SIZE,
+    ...(state.category !== null && { categories: [state.category] }),
+    ...(state.tag !== null && { tags: [state.tag] }),
+    locale,
+  };
+}
+
+/**
+ * WordPress post list params for the posts related to a post: the latest
+ * posts sharing one of its categories
+ */
+export function toRelatedPostParams(
+  post: WordPressPost,
+  locale: Locale
+): WordPressPostParams {
+  return {
+    per_page: RELATED_POSTS_COUNT,
+    categories: post.categories,
+    exclude: [post.id],
+    locale,
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  loadProductSearchState,
+  serializeProductSearchState,
+  toProductSearchParams,
+} from './product-search-params';
+
+/**
+ * API search params of a URL query string
+ */
+function toParams(query: string) {
+  return toProductSearchParams(
+    loadProductSearchState(new URLSearchParams(query))
+  );
+}
+
+describe('toProductSearchParams', () => {
+  it('omits default and empty values', () => {
+    expect(toParams('')).toEqual({});
+    expect(toParams('q=%20%20&brands=&sort=relevance&page=1')).toEqual({});
+  });
+
+  it('converts the URL state', () => {
+    expect(
+      toParams(
+        'q=%20tomaat%20&brands=1,2&categories=3&minPrice=1.5&maxPrice=10&inStock=true&certifications=4&sort=price_asc&page=3'
+      )
+    ).toEqual({
+      keyword: 'tomaat',
+      brands: [1, 2],
+      categories: [3],
+      minPrice: 1.5,
+      maxPrice: 10,
+      inStock: true,
+      certifications: [4],
+      sortBy: 'price_asc',
+      page: 2,
+    });
+  });
+
+  it('only excludes may-contain for selected allergens', () => {
+    expect(toParams('allergenFree=gluten,milk&excludeMayContain=true')).toEqual(
+      { allergenFree: ['gluten', 'milk'], excludeMayContain: true }
+    );
+    expect(toParams('excludeMayContain=true')).toEqual({});
+  });
+
+  it('ignores invalid values', () => {
+    expect(toParams('sort=cheapest&allergenFree=unknown&page=x')).toEqual({});
+  });
+
+  it('does not send the view mode', () => {
+    expect(toParams('view=infinite')).toEqual({});
+  });
+});
+
+describe('serializeProductSearchState', () => {
+  it('builds a query string without defaults', () => {
+    expect(
+      serializeProductSearchState('/product', { brands: [12], page: 1 })
+    ).toBe('/product?brands=12');
+  });
+});
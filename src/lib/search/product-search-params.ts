@@ -0,0 +1,100 @@
+/**
+ * Product search URL state
+ *
+ * Describes how the catalog search state is stored in the URL
+ * (`/product?q=tomaat&brands=1,2&page=2`). The parsers are shared by the
+ * server page (initial render + prefetch) and the client hook, so both
+ * derive the exact same ProductSearchParams (and therefore query key).
+ */
+
+import {
+  createLoader,
+  createSerializer,
+  parseAsArrayOf,
+  parseAsBoolean,
+  parseAsFloat,
+  parseAsInteger,
+  parseAsString,
+  parseAsStringLiteral,
+  type inferParserType,
+} from 'nuqs/server';
+
+import { ALLERGEN_CODES } from '@/lib/allergens';
+import {
+  PRODUCT_SORT_OPTIONS,
+  type ProductSearchParams,
+} from '@/lib/api/foodbook';
+
+/**
+ * How results are presented: numbered pages or continuous scrolling
+ */
+export const PRODUCT_VIEW_MODES = ['pages', 'infinite'] as const;
+
+export type ProductViewMode = (typeof PRODUCT_VIEW_MODES)[number];
+
+/**
+ * URL search param parsers for the product search page
+ */
+export const productSearchParsers = {
+  q: parseAsString.withDefault(''),
+  brands: parseAsArrayOf(parseAsInteger).withDefault([]),
+  categories: parseAsArrayOf(parseAsInteger).withDefault([]),
+  minPrice: parseAsFloat,
+  maxPrice: parseAsFloat,
+  inStock: parseAsBoolean.withDefault(false),
+  allergenFree: parseAsArrayOf(
+    parseAsStringLiteral(ALLERGEN_CODES)
+  ).withDefault([]),
+  excludeMayContain: parseAsBoolean.withDefault(false),
+  certifications: parseAsArrayOf(parseAsInteger).withDefault([]),
+  sort: parseAsStringLiteral(PRODUCT_SORT_OPTIONS).withDefault('relevance'),
+  // 1-based in the URL, 0-based in the API
+  page: parseAsInteger.withDefault(1),
+  // Presentation only, not sent to the API
+  view: parseAsStringLiteral(PRODUCT_VIEW_MODES).withDefault('pages'),
+};
+
+export type ProductSearchState = inferParserType<typeof productSearchParsers>;
+
+/**
+ * Load the product search state from a page's `searchParams`
+ */
+export const loadProductSearchState = createLoader(productSearchParsers);
+
+/**
+ * Build a product search URL query string, e.g. for links
+ *
+ * @example
+ * serializeProductSearchState('/product', { brands: [12] }) // '/product?brands=12'
+ */
+export const serializeProductSearchState =
+  createSerializer(productSearchParsers);
+
+/**
+ * Convert URL state into API search params
+ *
+ * Default/empty values are omitted so equal searches always produce
+ * equal query keys.
+ */
+export function toProductSearchParams(
+  state: ProductSearchState
+): ProductSearchParams {
+  return {
+    ...(state.q.trim() !== '' && { keyword: state.q.trim() }),
+    ...(state.brands.length > 0 && { brands: state.brands }),
+    ...(state.categories.length > 0 && { categories: state.categories }),
+    ...(state.minPrice !== null && { minPrice: state.minPrice }),
+    ...(state.maxPrice !== null && { maxPrice: state.maxPrice }),
+    ...(state.inStock && { inStock: true }),
+    ...(state.allergenFree.length > 0 && {
+      allergenFree: state.allergenFree,
+      // Only applies to the selected allergens
+      ...(state.excludeMayContain && { excludeMayContain: true }),
+    }),
+    ...(state.certifications.length > 0 && {
+      certifications: state.certifications,
+    }),
+    ...(state.sort !== 'relevance' && { sortBy: state.sort }),
+    ...(state.page > 1 && { page: state.page - 1 }),
+  };
+}
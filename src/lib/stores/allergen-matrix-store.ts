@@ -0,0 +1,64 @@
+import { useEffect } from 'react';
+
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+interface AllergenMatrixState {
+  /** Selected product IDs, in selection order */
+  productIds: number[];
+  toggle: (productId: number) => void;
+  remove: (productId: number) => void;
+  clear: () => void;
+}
+
+/**
+ * Products selected for the allergen matrix
+ *
+ * Persisted in localStorage, so a selection survives navigating and
+ * searching. Hydration is skipped on creation (the server renders an
+ * empty selection); use useAllergenMatrixSelection in components.
+ */
+export const useAllergenMatrixStore = create<AllergenMatrixState>()(
+  persist(
+    (set) => ({
+      productIds: [],
+      toggle: (productId) => {
+        set(({ productIds }) => ({
+          productIds: productIds.includes(productId)
+            ? productIds.filter((id) => id !== productId)
+            : [...productIds, productId],
+        }));
+      },
+      remove: (productId) => {
+        set(({ productIds }) => ({
+          productIds: productIds.filter((id) => id !== productId),
+        }));
+      },
+      clear: () => {
+        set({ productIds: [] });
+      },
+    }),
+    {
+      name: 'allergen-matrix',
+      storage: createJSONStorage(() => localStorage),
+      partialize: ({ productIds }) => ({ productIds }),
+      skipHydration: true,
+    }
+  )
+);
+
+/**
+ * Hook to read and change the allergen matrix selection
+ *
+ * Restores the persisted selection after mounting, so the first client
+ * render matches the server render.
+ */
+export function useAllergenMatrixSelection() {
+  useEffect(() => {
+    if (!useAllergenMatrixStore.persist.hasHydrated()) {
+      void useAllergenMatrixStore.persist.rehydrate();
+    }
+  }, []);
+
+  return useAllergenMatrixStore();
+}
@@ -0,0 +1,87 @@
+import { useEffect } from 'react';
+
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+import type { Product } from '@/lib/api/foodbook';
+
+/**
+ * Most products compared at once (columns of the compare page)
+ */
+export const MAX_COMPARE_PRODUCTS = 4;
+
+/**
+ * Product in the compare tray, with what the tray shows of it
+ */
+export type CompareItem = Pick<Product, 'id' | 'name' | 'image'>;
+
+interface CompareState {
+  /** Products in the tray, in the order they were added */
+  items: CompareItem[];
+  /**
+   * Add a product, or remove it when it is in the tray
+   *
+   * @returns false when the tray is full and the product was not added
+   */
+  toggle: (item: CompareItem) => boolean;
+  remove: (productId: number) => void;
+  clear: () => void;
+}
+
+/**
+ * Compare tray
+ *
+ * Persisted in localStorage, so the tray survives navigating and
+ * reloading. Hydration is skipped on creation (the server renders an
+ * empty tray); use useCompareTray in components.
+ */
+export const useCompareStore = create<CompareState>()(
+  persist(
+    (set, get) => ({
+      items: [],
+      toggle: (item) => {
+        const { items } = get();
+
+        if (items.some(({ id }) => id === item.id)) {
+          set({ items: items.filter(({ id }) => id !== item.id) });
+          return true;
+        }
+        if (items.length >= MAX_COMPARE_PRODUCTS) {
+          return false;
+        }
+        set({ items: [...items, item] });
+        return true;
+      },
+      remove: (productId) => {
+        set(({ items }) => ({
+          items: items.filter(({ id }) => id !== productId),
+        }));
+      },
+      clear: () => {
+        set({ items: [] });
+      },
+    }),
+    {
+      name: 'compare',
+      storage: createJSONStorage(() => localStorage),
+      partialize: ({ items }) => ({ items }),
+      skipHydration: true,
+    }
+  )
+);
+
+/**
+ * Hook to read and change the compare tray
+ *
+ * Restores the persisted tray after mounting, so the first client render
+ * matches the server render.
+ */
+export function useCompareTray() {
+  useEffect(() => {
+    if (!useCompareStore.persist.hasHydrated()) {
+      void useCompareStore.persist.rehydrate();
+    }
+  }, []);
+
+  return useCompareStore();
+}
@@ -0,0 +1,30 @@
+import { fileURLToPath } from 'node:url';
+
+import react from '@vitejs/plugin-react';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.{ts,tsx}', 'middleware.test.ts'],
+    server: {
+      deps: {
+        // Imports `next/*` without extension, which Node cannot resolve
+        inline: ['next-intl'],
+      },
+    },
+    // The API clients and session verification read these when imported
+    env: {
+      NEXT_PUBLIC_FOODBOOK_API_URL: 'https://foodbook.test',
+      NEXT_PUBLIC_WP_API_URL: 'https://wordpress.test/wp-json',
+      NEXT_PUBLIC_WEBAPI_API_URL: 'https://webapi.test',
+      JWT_SECRET: 'test-secret-of-at-least-32-characters',
+    },
+  },
+});